@@ -0,0 +1,306 @@
+import { readFileSync } from 'fs'
+import * as tjs from 'typescript-json-schema'
+
+import { Route, describeParam, formatValue, getRouteKey, indexRoutes } from './changelog'
+import { NiceError } from './errors'
+import { resolveSchema } from './examples'
+import { DocumentationSnapshot } from './json'
+import * as parser from './parser'
+
+/**
+ * A change to a route which could break clients written for the earlier
+ * version of the documentation
+ */
+export interface BreakingChange {
+    /**
+     * The method and full path of the route (e.g. GET /users/:id)
+     */
+    route: string
+    message: string
+}
+
+/**
+ * The breaking changes between two versions of the documentation, split by
+ * whether the allow-list permits them
+ */
+export interface BreakingChangeReport {
+    breaking: BreakingChange[]
+    allowed: BreakingChange[]
+    /**
+     * The entries of the allow-list which did not permit any change, such as
+     * those left over from an earlier release
+     */
+    unused: string[]
+}
+
+/**
+ * What is needed to compare the schemas of a request body or response
+ */
+interface SchemaContext {
+    /**
+     * Whether the schemas describe what clients send, which may not become
+     * stricter, or what clients receive, which may not become looser
+     */
+    direction: 'request' | 'response'
+    /**
+     * The schemas holding the definitions which $refs point to
+     */
+    before: tjs.Definition
+    after: tjs.Definition
+    /**
+     * Describes a property by its path, or the whole body if the path is empty
+     */
+    describe: (path: string) => string
+    /**
+     * The pairs of $refs which have been compared, so that recursive types
+     * are only compared once
+     */
+    compared: Set<string>
+    changes: string[]
+}
+
+/**
+ * Finds the changes which could break clients written for the earlier
+ * version of the documentation: removed routes, parameters and request body
+ * properties which are new or newly required, narrowed values of parameters
+ * and request bodies, removed or optional response fields, widened values of
+ * responses and changed types.
+ *
+ * Schemas are compared through $refs, objects and arrays. Unions (anyOf,
+ * oneOf) are not compared.
+ */
+export function findBreakingChanges(before: parser.Documentation.Router[],
+                                    after: parser.Documentation.Router[]): BreakingChange[] {
+    const oldRoutes = indexRoutes(before)
+    const newRoutes = indexRoutes(after)
+    const changes: BreakingChange[] = []
+    for (const [key, route] of oldRoutes.entries()) {
+        const current = newRoutes.get(key)
+        if (!current) changes.push({ route: route.name, message: 'Removed the route' })
+        else compareRoutes(route, current).forEach(message => changes.push({ route: current.name, message }))
+    }
+    return changes
+}
+
+function compareRoutes(before: Route, after: Route): string[] {
+    const changes: string[] = []
+    for (const param of after.block.params) {
+        const old = before.block.params.find(p => p.query === param.query && p.name === param.name)
+        // URL parameters which are not found have been renamed, which clients cannot tell
+        if (!old && param.query && !param.optional) changes.push(`Added required ${describeParam(param)}`)
+        if (old) changes.push(...compareParams(old, param))
+    }
+
+    const oldBody = before.block.body
+    const newBody = after.block.body
+    if (!oldBody && newBody) changes.push('Now requires a request body')
+    if (oldBody && newBody) {
+        if (oldBody.type && newBody.type && oldBody.type !== newBody.type) {
+            changes.push(`Changed the content type of the request body from ${formatValue(oldBody.type)} to ${formatValue(newBody.type)}`)
+        }
+        if (oldBody.schema && newBody.schema) {
+            changes.push(...compareRootSchemas(oldBody.schema, newBody.schema, 'request',
+                path => path ? `body property \`${path}\`` : 'the request body'))
+        }
+    }
+
+    for (const response of before.block.responses) {
+        // Each status code is compared once, using its first documented response
+        if (before.block.responses.find(r => r.code === response.code) !== response) continue
+        const current = after.block.responses.find(r => r.code === response.code)
+        if (!current) continue
+        if (response.type && current.type && response.type !== current.type) {
+            changes.push(`Changed the content type of response ${response.code} from ${formatValue(response.type)} to ${formatValue(current.type)}`)
+        }
+        if (response.schema && current.schema) {
+            changes.push(...compareRootSchemas(response.schema, current.schema, 'response',
+                path => path ? `field \`${path}\` of response ${response.code}` : `response ${response.code}`))
+        }
+    }
+
+    const removedAuth = before.block.auth.filter(scheme => !after.block.auth.includes(scheme))
+    if (!before.block.auth.length && after.block.auth.length) {
+        changes.push(`Now requires authentication with ${after.block.auth.join(' or ')}`)
+    } else if (after.block.auth.length && removedAuth.length) {
+        changes.push(`No longer accepts authentication with ${removedAuth.join(' or ')}`)
+    }
+    return changes
+}
+
+function compareParams(before: parser.Documentation.Param, after: parser.Documentation.Param): string[] {
+    const changes: string[] = []
+    const name = describeParam(after)
+    if (before.type !== after.type) {
+        changes.push(`Changed the type of ${name} from ${formatValue(before.type)} to ${formatValue(after.type)}`)
+    }
+    if (before.optional && !after.optional) changes.push(`Made ${name} required`)
+    if (!before.members && after.members) {
+        changes.push(`Restricted ${name} to ${after.members.map(formatValue).join(', ')}`)
+    } else if (before.members && after.members) {
+        const removed = before.members.filter(m => !after.members!.includes(m))
+        if (removed.length) changes.push(`Narrowed ${name}, which no longer accepts ${removed.map(formatValue).join(', ')}`)
+    }
+    return changes
+}
+
+function compareRootSchemas(before: tjs.Definition, after: tjs.Definition, direction: 'request' | 'response',
+                            describe: (path: string) => string): string[] {
+    const context: SchemaContext = { direction, before, after, describe, compared: new Set(), changes: [] }
+    compareSchemas(before, after, '', context)
+    return context.changes
+}
+
+function compareSchemas(before: tjs.Definition, after: tjs.Definition, path: string, context: SchemaContext): void {
+    if (before.$ref && after.$ref) {
+        const pair = `${before.$ref} ${after.$ref}`
+        if (context.compared.has(pair)) return
+        context.compared.add(pair)
+    }
+    before = resolveSchema(context.before, before)
+    after = resolveSchema(context.after, after)
+    const request = context.direction === 'request'
+    const name = context.describe(path)
+
+    const oldTypes = getTypes(before)
+    const newTypes = getTypes(after)
+    if (oldTypes && newTypes) {
+        // Requests may not stop accepting a type, and responses may not start returning one
+        const narrowed = request ? !includesTypes(newTypes, oldTypes) : !includesTypes(oldTypes, newTypes)
+        if (narrowed) {
+            context.changes.push(`Changed the type of ${name} from ${formatTypes(oldTypes)} to ${formatTypes(newTypes)}`)
+            return
+        }
+    }
+
+    const oldValues = getValues(before)
+    const newValues = getValues(after)
+    if (request && !oldValues && newValues) {
+        context.changes.push(`Restricted ${name} to ${newValues.map(formatJson).join(', ')}`)
+    } else if (request && oldValues && newValues) {
+        const removed = oldValues.filter(v => !newValues.some(w => formatJson(w) === formatJson(v)))
+        if (removed.length) context.changes.push(`Narrowed ${name}, which no longer accepts ${removed.map(formatJson).join(', ')}`)
+    } else if (!request && oldValues && newValues) {
+        const added = newValues.filter(v => !oldValues.some(w => formatJson(w) === formatJson(v)))
+        if (added.length) context.changes.push(`Widened ${name}, which may now be ${added.map(formatJson).join(', ')}`)
+    }
+
+    const oldProperties = before.properties || {}
+    const newProperties = after.properties || {}
+    const oldRequired = before.required || []
+    const newRequired = after.required || []
+    const propertyPath = (property: string) => path ? `${path}.${property}` : property
+    if (request) {
+        for (const property of Object.keys(newProperties)) {
+            if (!(property in oldProperties)) {
+                if (newRequired.includes(property)) context.changes.push(`Added required ${context.describe(propertyPath(property))}`)
+                continue
+            }
+            if (newRequired.includes(property) && !oldRequired.includes(property)) {
+                context.changes.push(`Made ${context.describe(propertyPath(property))} required`)
+            }
+            compareSchemas(oldProperties[property], newProperties[property], propertyPath(property), context)
+        }
+    } else {
+        for (const property of Object.keys(oldProperties)) {
+            if (!(property in newProperties)) {
+                context.changes.push(`Removed ${context.describe(propertyPath(property))}`)
+                continue
+            }
+            if (oldRequired.includes(property) && !newRequired.includes(property)) {
+                context.changes.push(`Made ${context.describe(propertyPath(property))} optional`)
+            }
+            compareSchemas(oldProperties[property], newProperties[property], propertyPath(property), context)
+        }
+    }
+
+    const isSchema = (items: any): items is tjs.Definition => typeof items === 'object' && !Array.isArray(items)
+    if (isSchema(before.items) && isSchema(after.items)) compareSchemas(before.items, after.items, `${path}[]`, context)
+}
+
+/**
+ * Returns the types a schema allows, or null if they are not given
+ */
+function getTypes(schema: tjs.Definition): string[] | null {
+    if (!schema.type) return null
+    return Array.isArray(schema.type) ? schema.type : [schema.type]
+}
+
+/**
+ * Checks whether every type in some types is one of the others, counting
+ * integers as numbers
+ */
+function includesTypes(types: string[], others: string[]): boolean {
+    return others.every(t => types.includes(t) || (t === 'integer' && types.includes('number')))
+}
+
+function formatTypes(types: string[]): string {
+    return types.map(formatValue).join(' or ')
+}
+
+/**
+ * Returns the values a schema allows (given by enum or const), or null if
+ * it is not limited to certain values
+ */
+function getValues(schema: tjs.Definition): any[] | null {
+    const constant = (schema as any).const
+    if (constant !== undefined) return [constant]
+    return schema.enum || null
+}
+
+function formatJson(value: any): string {
+    return `\`${JSON.stringify(value)}\``
+}
+
+/**
+ * Reads a file listing breaking changes which are intended. Each line is a
+ * route (e.g. GET /users/:id), which allows every breaking change to the
+ * route, or a breaking change as it is reported (GET /users/:id: Removed the
+ * route). Blank lines and lines starting with # are ignored.
+ */
+export function readAllowList(file: string): string[] {
+    let text
+    try {
+        text = readFileSync(file).toString()
+    } catch (e) {
+        throw new NiceError(`Error: Could not read the allow-list ${file}.\n  ${e.message}`)
+    }
+    return text.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+}
+
+/**
+ * Finds the breaking changes between two versions of the documentation and
+ * checks them against an allow-list
+ */
+export function checkBreakingChanges(before: DocumentationSnapshot, after: DocumentationSnapshot,
+                                     allowList: string[]): BreakingChangeReport {
+    const report: BreakingChangeReport = { breaking: [], allowed: [], unused: [] }
+    const used = new Set<string>()
+    for (const change of findBreakingChanges(before.routers, after.routers)) {
+        const entry = allowList.find(e => allows(e, change))
+        if (entry) {
+            used.add(entry)
+            report.allowed.push(change)
+        } else {
+            report.breaking.push(change)
+        }
+    }
+    report.unused = allowList.filter(e => !used.has(e))
+    return report
+}
+
+function allows(entry: string, change: BreakingChange): boolean {
+    // Paths cannot contain ': ', so it separates the route from the message
+    const separator = entry.indexOf(': ')
+    const route = separator === -1 ? entry : entry.substring(0, separator)
+    const [method, ...path] = route.split(' ')
+    if (getRouteKey(`${method.toUpperCase()} ${path.join(' ')}`) !== getRouteKey(change.route)) return false
+    return separator === -1 || entry.substring(separator + 2) === change.message
+}
+
+/**
+ * Formats a breaking change as it is reported, and as it can be given in an
+ * allow-list
+ */
+export function formatBreakingChange(change: BreakingChange): string {
+    return `${change.route}: ${change.message}`
+}
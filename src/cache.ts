@@ -0,0 +1,132 @@
+import ts from 'typescript'
+
+import { Documentation } from './parser'
+
+/**
+ * The documentation of a file from an earlier run
+ */
+interface CachedFile {
+  /**
+   * The text of the file when it was documented, which changes whenever the
+   * version of the file does
+   */
+  text: string
+  /**
+   * The files which the file imports, and those declaring the types its
+   * schemas were generated from
+   */
+  imports: string[]
+  routers: Documentation.Router[]
+  /**
+   * The number of errors which were reported while documenting the file
+   */
+  errors: number
+}
+
+/**
+ * Keeps the documentation of each file between runs in watch mode, so that
+ * only the files which changed, or which depend on a file that changed, are
+ * documented again.
+ *
+ * A file's documentation can only depend on the types of the files it
+ * imports (directly or through other files), on the types its schemas were
+ * generated from, which are found by name wherever they are declared, and on
+ * global declarations. Changing a file which is not a module (such as a
+ * global .d.ts) causes every file to be documented again, as does changing
+ * the config or where routers are mounted.
+ */
+export class DocumentationCache {
+  private files = new Map<string, CachedFile>()
+  private context: string | null = null
+
+  /**
+   * Finds the files which have to be documented again, forgetting the
+   * documentation of files which have been removed.
+   *
+   * @param context everything besides the files which the documentation
+   * depends on, such as the config. If it is different from the last run,
+   * every file is documented again.
+   * @returns the names of the files to document
+   */
+  public findOutdated(files: ReadonlyArray<ts.SourceFile>, checker: ts.TypeChecker, context: string): Set<string> {
+    const names = new Set(files.map(f => f.fileName))
+    const changed = new Set<string>()
+    for (const name of this.files.keys()) {
+      if (!names.has(name)) changed.add(name)
+    }
+    for (const file of files) {
+      const cached = this.files.get(file.fileName)
+      if (!cached || cached.text !== file.text) changed.add(file.fileName)
+    }
+
+    const globalChange = files.some(f => changed.has(f.fileName) && !ts.isExternalModule(f))
+    if (context !== this.context || globalChange) {
+      this.context = context
+      this.files.clear()
+      return names
+    }
+
+    // Files are outdated if they import an outdated file, either now or
+    // before the import was removed, or if their schemas use a type declared
+    // in one
+    const importers = new Map<string, string[]>()
+    const addImporter = (imported: string, importer: string) =>
+      importers.set(imported, (importers.get(imported) || []).concat(importer))
+    for (const file of files) {
+      const cached = this.files.get(file.fileName)
+      const imports = getImportedFiles(file, checker).concat(cached ? cached.imports : [])
+      imports.forEach(imported => addImporter(imported, file.fileName))
+    }
+    const outdated = new Set<string>()
+    const queue = Array.from(changed)
+    while (queue.length) {
+      const name = queue.pop()!
+      if (outdated.has(name)) continue
+      outdated.add(name)
+      queue.push(...(importers.get(name) || []))
+    }
+
+    for (const name of outdated) this.files.delete(name)
+    return new Set(Array.from(outdated).filter(name => names.has(name)))
+  }
+
+  /**
+   * Returns the documentation of a file which is up to date, along with the
+   * number of errors reported while documenting it
+   */
+  public get(file: ts.SourceFile): { routers: Documentation.Router[], errors: number } | undefined {
+    const cached = this.files.get(file.fileName)
+    return cached && cached.text === file.text ? cached : undefined
+  }
+
+  /**
+   * Keeps the documentation of a file
+   *
+   * @param typeFiles the files declaring the types which the schemas in the
+   * documentation were generated from
+   */
+  public set(file: ts.SourceFile, checker: ts.TypeChecker, routers: Documentation.Router[], typeFiles: string[],
+             errors: number): void {
+    const imports = getImportedFiles(file, checker).concat(typeFiles.filter(f => f !== file.fileName))
+    this.files.set(file.fileName, { text: file.text, imports, routers, errors })
+  }
+}
+
+/**
+ * Returns the names of the files which a file imports or re-exports from
+ */
+function getImportedFiles(sourceFile: ts.SourceFile, checker: ts.TypeChecker): string[] {
+  const files: string[] = []
+  for (const statement of sourceFile.statements) {
+    let specifier: ts.Expression | undefined
+    if (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) {
+      specifier = statement.moduleSpecifier
+    } else if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference)) {
+      specifier = statement.moduleReference.expression
+    }
+    const symbol = specifier && checker.getSymbolAtLocation(specifier)
+    const declaration = symbol && symbol.valueDeclaration
+    if (declaration && ts.isSourceFile(declaration)) files.push(declaration.fileName)
+  }
+  return files
+}
@@ -0,0 +1,202 @@
+import { DocumentationSnapshot } from './json'
+import * as parser from './parser'
+import { joinPaths } from './routers'
+
+/**
+ * A route of the documentation, with its full path
+ */
+export interface Route {
+    /**
+     * The method and full path of the route (e.g. GET /users/:id)
+     */
+    name: string
+    block: parser.Documentation.Block
+}
+
+/**
+ * The changes to a route which is in both versions of the documentation
+ */
+export interface RouteChanges {
+    route: Route
+    changes: string[]
+}
+
+/**
+ * The differences between two versions of the documentation
+ */
+export interface Changelog {
+    added: Route[]
+    removed: Route[]
+    /**
+     * Routes which have been deprecated since the earlier version
+     */
+    deprecated: Route[]
+    changed: RouteChanges[]
+}
+
+/**
+ * Lists the routes of the documentation by method and path. The names of
+ * url parameters are left out of the keys, so that renaming a parameter does
+ * not make a route seem to be removed and added again.
+ */
+export function indexRoutes(routers: parser.Documentation.Router[]): Map<string, Route> {
+    const routes = new Map<string, Route>()
+    for (const router of routers) {
+        for (const group of router.routes) {
+            for (const block of group.methods) {
+                const name = `${block.method.toUpperCase()} ${joinPaths(router.path, block.path)}`
+                const key = getRouteKey(name)
+                if (!routes.has(key)) routes.set(key, { name, block })
+            }
+        }
+    }
+    return routes
+}
+
+/**
+ * Returns the key of a route in indexRoutes from its method and full path
+ */
+export function getRouteKey(name: string): string {
+    return name.replace(/:\w+/g, ':')
+}
+
+/**
+ * Finds the routes which have been added, removed, deprecated or changed
+ * between two versions of the documentation
+ */
+export function compareDocumentation(before: parser.Documentation.Router[], after: parser.Documentation.Router[]): Changelog {
+    const oldRoutes = indexRoutes(before)
+    const newRoutes = indexRoutes(after)
+    const changelog: Changelog = { added: [], removed: [], deprecated: [], changed: [] }
+    for (const [key, route] of newRoutes.entries()) {
+        const old = oldRoutes.get(key)
+        if (!old) {
+            changelog.added.push(route)
+            continue
+        }
+        if (route.block.deprecated !== null && old.block.deprecated === null) changelog.deprecated.push(route)
+        const changes = compareRoutes(old, route)
+        if (changes.length) changelog.changed.push({ route, changes })
+    }
+    for (const [key, route] of oldRoutes.entries()) {
+        if (!newRoutes.has(key)) changelog.removed.push(route)
+    }
+    return changelog
+}
+
+function compareRoutes(before: Route, after: Route): string[] {
+    const changes: string[] = []
+    if (before.name !== after.name) changes.push(`Renamed from \`${before.name}\``)
+    if (before.block.deprecated !== null && after.block.deprecated === null) changes.push('No longer deprecated')
+
+    const paramKey = (p: parser.Documentation.Param) => `${p.query}:${p.name}`
+    for (const param of after.block.params) {
+        const old = before.block.params.find(p => paramKey(p) === paramKey(param))
+        if (!old) changes.push(`Added ${describeParam(param)}${param.optional ? '' : ' (required)'}`)
+        else changes.push(...compareParams(old, param))
+    }
+    for (const param of before.block.params) {
+        if (!after.block.params.some(p => paramKey(p) === paramKey(param))) changes.push(`Removed ${describeParam(param)}`)
+    }
+
+    const oldBody = before.block.body
+    const newBody = after.block.body
+    if (!oldBody && newBody) changes.push(`Added a request body${newBody.typeName ? ` of type \`${newBody.typeName}\`` : ''}`)
+    else if (oldBody && !newBody) changes.push('Removed the request body')
+    else if (oldBody && newBody && oldBody.typeName !== newBody.typeName) {
+        changes.push(`Changed the type of the request body from ${formatValue(oldBody.typeName)} to ${formatValue(newBody.typeName)}`)
+    }
+
+    const oldCodes = getCodes(before.block)
+    const newCodes = getCodes(after.block)
+    for (const code of newCodes) {
+        if (!oldCodes.includes(code)) changes.push(`Added response ${code}`)
+    }
+    for (const code of oldCodes) {
+        if (!newCodes.includes(code)) changes.push(`Removed response ${code}`)
+    }
+    for (const code of newCodes.filter(c => oldCodes.includes(c))) {
+        const oldTypes = getResponseTypes(before.block, code)
+        const newTypes = getResponseTypes(after.block, code)
+        if (oldTypes !== newTypes) changes.push(`Changed the type of response ${code} from ${oldTypes} to ${newTypes}`)
+    }
+
+    const oldAuth = before.block.auth.slice().sort().join(' or ')
+    const newAuth = after.block.auth.slice().sort().join(' or ')
+    if (oldAuth !== newAuth) {
+        changes.push(!newAuth ? 'No longer requires authentication' :
+            !oldAuth ? `Now requires authentication with ${newAuth}` :
+            `Changed authentication from ${oldAuth} to ${newAuth}`)
+    }
+    return changes
+}
+
+function compareParams(before: parser.Documentation.Param, after: parser.Documentation.Param): string[] {
+    const changes: string[] = []
+    const name = describeParam(after)
+    if (before.type !== after.type) {
+        changes.push(`Changed the type of ${name} from ${formatValue(before.type)} to ${formatValue(after.type)}`)
+    }
+    if (before.optional && !after.optional) changes.push(`Made ${name} required`)
+    if (!before.optional && after.optional) changes.push(`Made ${name} optional`)
+    if (before.default !== after.default) {
+        changes.push(`Changed the default of ${name} from ${formatValue(before.default)} to ${formatValue(after.default)}`)
+    }
+    const oldMembers = before.members || []
+    const newMembers = after.members || []
+    const added = newMembers.filter(m => !oldMembers.includes(m))
+    const removed = oldMembers.filter(m => !newMembers.includes(m))
+    if (before.members && after.members && added.length) changes.push(`Added ${added.map(formatValue).join(', ')} to ${name}`)
+    if (before.members && after.members && removed.length) changes.push(`Removed ${removed.map(formatValue).join(', ')} from ${name}`)
+    return changes
+}
+
+export function describeParam(param: parser.Documentation.Param): string {
+    return `${param.query ? 'query' : 'url'} parameter \`${param.name}\``
+}
+
+/**
+ * Returns the status codes of a route's responses in order
+ */
+function getCodes(block: parser.Documentation.Block): number[] {
+    return block.responses.map(r => r.code).filter((c, i, all) => all.indexOf(c) === i).sort((a, b) => a - b)
+}
+
+/**
+ * Describes the types of the responses of a route with a status code
+ */
+function getResponseTypes(block: parser.Documentation.Block, code: number): string {
+    const types = block.responses.filter(r => r.code === code).map(r => r.typeName || r.type)
+    return types.filter((t, i) => types.indexOf(t) === i).map(formatValue).join(' or ')
+}
+
+export function formatValue(value: string | number | null): string {
+    return value === null || value === '' ? 'none' : `\`${value}\``
+}
+
+/**
+ * Writes a changelog as Markdown, with a section for each kind of change
+ */
+export function renderChangelog(before: DocumentationSnapshot, after: DocumentationSnapshot): string {
+    const changelog = compareDocumentation(before.routers, after.routers)
+    const versions = before.api.version && after.api.version ? ` (${before.api.version} to ${after.api.version})` : ''
+    let text = `# Changelog${versions}\n`
+    const list = (title: string, routes: Route[], describe: (route: Route) => string) => {
+        if (!routes.length) return
+        text += `\n## ${title}\n\n`
+        routes.forEach(route => text += `- \`${route.name}\` ${describe(route)}\n`)
+    }
+    list('Added', changelog.added, r => r.block.title + (r.block.since ? ` (since ${r.block.since})` : ''))
+    list('Removed', changelog.removed, r => r.block.title)
+    list('Deprecated', changelog.deprecated, r => r.block.title + (r.block.deprecated ? `: ${r.block.deprecated}` : ''))
+    if (changelog.changed.length) {
+        text += '\n## Changed\n'
+        for (const { route, changes } of changelog.changed) {
+            text += `\n### \`${route.name}\` ${route.block.title}\n\n`
+            changes.forEach(change => text += `- ${change}\n`)
+        }
+    }
+    const empty = !changelog.added.length && !changelog.removed.length && !changelog.deprecated.length && !changelog.changed.length
+    if (empty) text += '\nThe routes have not changed.\n'
+    return text
+}
@@ -0,0 +1,225 @@
+/**
+ * This version of the script acts like tsc --watch, except it outputs
+ * documentation in addition to code.
+ */
+import { execSync } from 'child_process'
+import ts from 'typescript'
+import * as yargs from 'yargs'
+
+import { checkBreakingChanges, formatBreakingChange, readAllowList } from './breaking'
+import { DocumentationCache } from './cache'
+import { renderChangelog } from './changelog'
+import { Config, parseConfig } from './config'
+import { NiceError } from './errors'
+import { emitDocumentation, findDrift } from './index'
+import { DocumentationSnapshot, createSnapshot, readSnapshot } from './json'
+import { getErrorCount, reportDiagnostic, reportWatchStatusChanged, resetErrorCount, report } from './logger'
+import { Documentation, createDocumentation } from './parser'
+
+const DEFAULT_CONFIG = './docconfig.json'
+const DEFAULT_MOCK_PORT = 3000
+// How long to wait in watch mode for the code to stop changing before the
+// documentation is written
+const WRITE_DELAY = 500
+
+const argv = yargs
+    .usage('Usage: $0 [command] [options]')
+    .command('mock', 'Start a server answering each documented route with its example response')
+    .command('diff <old> <new>', 'Write a changelog of the routes between two files written by json outputs')
+    .command('breaking <old> [new]', 'Find changes since a file written by a json output which would break clients, ' +
+        'comparing it with the code or with another file')
+    .example('$0 -p docconfig.json', 'Compile with parameters described in doccconfig.json')
+    .alias('p', 'project')
+    .describe('p', 'Path to a docconfig.json file describing documentation compilation parameters')
+    .nargs('p', 1)
+    .help('h')
+    .alias('h', 'help')
+    .alias('w', 'watch')
+    .describe('w', 'Watch input files')
+    .boolean('w')
+    .alias('c', 'check')
+    .describe('c', 'Check the documentation against the rules in docconfig.json without writing it')
+    .boolean('c')
+    .describe('verify', 'Check that the output files are up to date with the code without writing them')
+    .boolean('verify')
+    .describe('port', 'The port which the mock server listens on')
+    .number('port')
+    .default('port', DEFAULT_MOCK_PORT)
+    .describe('allow', 'A file listing the breaking changes which are intended, for the breaking command')
+    .string('allow')
+    .argv
+
+// The mock server, if the mock command was given. It is only loaded for the
+// mock command, since it requires koa.
+const mockServer = argv._[0] === 'mock' ? new (require('./mock') as typeof import('./mock')).MockServer(argv.port) : null
+// The documentation to find breaking changes since, if the breaking command was given
+let baseline: { snapshot: DocumentationSnapshot, allowList: string[] } | null = null
+
+try {
+    if (argv._[0] === 'diff') {
+        console.log(renderChangelog(readSnapshot(argv.old), readSnapshot(argv.new)))
+        process.exit(0)
+    }
+    if (argv._[0] === 'breaking') {
+        baseline = { snapshot: readSnapshot(argv.old), allowList: argv.allow ? readAllowList(argv.allow) : [] }
+        if (argv.new) process.exit(reportBreakingChanges(readSnapshot(argv.new)))
+    }
+    let config = parseConfig(argv.project || DEFAULT_CONFIG)
+    if (mockServer) {
+        mockServer.listen()
+            .then(() => console.log(`Mock server listening on http://localhost:${argv.port}`))
+            .catch(e => {
+                console.error(`Error: The mock server could not listen on port ${argv.port}.\n  ${e.message}`)
+                process.exit(1)
+            })
+    }
+    watchMain(config)
+} catch (e) {
+    if (!(e instanceof NiceError)) throw e
+    console.error(e.message)
+    process.exitCode = 1
+}
+
+/**
+ * Prints the breaking changes since the baseline which are not in the
+ * allow-list, returning the exit code
+ */
+function reportBreakingChanges(snapshot: DocumentationSnapshot): number {
+    const { breaking, allowed, unused } = checkBreakingChanges(baseline!.snapshot, snapshot, baseline!.allowList)
+    breaking.forEach(change => console.log(formatBreakingChange(change)))
+    allowed.forEach(change => console.log(`Allowed: ${formatBreakingChange(change)}`))
+    unused.forEach(entry => console.log(`Unused allow-list entry: ${entry}`))
+    console.log(breaking.length ?
+        `Found ${breaking.length} breaking change${breaking.length === 1 ? '' : 's'}.` :
+        'No breaking changes.')
+    return breaking.length ? 1 : 0
+}
+
+// Runs the watcher
+function watchMain(config: Config) {
+    const configPath = ts.findConfigFile(
+        './',
+        ts.sys.fileExists,
+        'tsconfig.json'
+    )
+    if (!configPath) {
+        throw new Error('Could not find a valid \'tsconfig.json\'.')
+    }
+
+    // TypeScript can use several different program creation 'strategies':
+    //    * ts.createEmitAndSemanticDiagnosticsBuilderProgram,
+    //    * ts.createSemanticDiagnosticsBuilderProgram
+    //    * ts.createAbstractBuilder
+    // The first two produce 'builder programs'. These use an incremental strategy
+    // to only re-check and emit files whose contents may have changed, or whose
+    // dependencies may have changes which may impact change the result of prior
+    // type-check and emit.
+    // The last uses an ordinary program which does a full type check after every
+    // change.
+    // Between `createEmitAndSemanticDiagnosticsBuilderProgram` and
+    // `createSemanticDiagnosticsBuilderProgram`, the only difference is emit.
+    // For pure type-checking scenarios, or when another tool/process handles emit,
+    // using `createSemanticDiagnosticsBuilderProgram` may be more desirable.
+    const createProgram = ts.createSemanticDiagnosticsBuilderProgram
+
+    // Note that there is another overload for `createWatchCompilerHost` that takes
+    // a set of root files.
+    const host = ts.createWatchCompilerHost(
+        configPath,
+        {},
+        ts.sys,
+        createProgram,
+        reportDiagnostic,
+        reportWatchStatusChanged
+    )
+
+    // You can technically override any given hook on the host, though you probably
+    // don't need to.
+    // Note that we're assuming `origCreateProgram` and `origPostProgramCreate`
+    // doesn't use `this` at all.
+    const origCreateProgram = host.createProgram
+    host.createProgram = (
+        rootNames: ReadonlyArray<string>|undefined,
+        options,
+        host,
+        oldProgram
+    ) => {
+        // console.log('info', '', 'Creating program...')
+        // Here we have access to the names of the typscript files that will bget compiled
+        // We could use the ts.createSourceFile function for each to get the AST for each file.
+        // const program = ts.createProgram(rootNames || [], options || {})
+        // createDocumentation(createSourceFiles(rootNames || []), program)
+        // process.exit(0) // After we do our work just quit
+        return origCreateProgram(rootNames, options, host, oldProgram)
+    }
+    const origPostProgramCreate = host.afterProgramCreate
+
+    // Only files which have changed since the last program are documented again
+    const cache = new DocumentationCache()
+    // In watch mode, writing the documentation and running the afterHook waits
+    // until the code has stopped changing, and each write waits for the last
+    let writeTimer: NodeJS.Timer | null = null
+    let writing = Promise.resolve()
+    const write = (config: Config, routers: Documentation.Router[]) => emitDocumentation(config, routers)
+        .then(() => {
+            if (config.afterHook) execSync(config.afterHook)
+            if (!argv.watch) process.exit(0)
+        })
+        .catch(e => {
+            console.error(e instanceof NiceError ? e.message : e)
+            process.exitCode = 1
+            if (!argv.watch) process.exit(1)
+        })
+
+    host.afterProgramCreate = program => {
+        config = parseConfig(argv.project || DEFAULT_CONFIG)
+        origPostProgramCreate!(program)
+        resetErrorCount()
+        const routers = createDocumentation(program.getSourceFiles(), program.getProgram(), config, cache)
+        if (mockServer) {
+            // The mock server keeps running, and is given the routes again each time the program changes
+            mockServer.setRoutes(routers)
+            console.log(`Serving ${routers.reduce((n, r) => n + r.routes.reduce((m, g) => m + g.methods.length, 0), 0)} documented routes.`)
+            return
+        }
+        if (baseline) {
+            const code = reportBreakingChanges(createSnapshot(config, routers))
+            if (!argv.watch) process.exit(code)
+            return
+        }
+        if (argv.check) {
+            const errors = getErrorCount()
+            console.log(errors ? `Found ${errors} documentation error${errors === 1 ? '' : 's'}.` : 'Documentation is valid.')
+            if (!argv.watch) process.exit(errors ? 1 : 0)
+            return
+        }
+        if (argv.verify) {
+            findDrift(config, routers).then(drift => {
+                drift.forEach(d => console.log(d.patch))
+                console.log(drift.length ?
+                    `Out of date: ${drift.map(d => d.output.output).join(', ')}` :
+                    'Documentation is up to date.')
+                if (!argv.watch) process.exit(drift.length ? 1 : 0)
+            })
+            .catch(e => {
+                console.error(e instanceof NiceError ? e.message : e)
+                if (!argv.watch) process.exit(1)
+            })
+            return
+        }
+        if (!argv.watch) {
+            write(config, routers)
+            return
+        }
+        if (writeTimer) clearTimeout(writeTimer)
+        const current = config
+        writeTimer = setTimeout(() => {
+            writeTimer = null
+            writing = writing.then(() => write(current, routers))
+        }, WRITE_DELAY)
+    }
+
+    // `createWatchProgram` creates an initial program, watches files, and updates
+    // the program over time.
+    ts.createWatchProgram(host)
+}
@@ -0,0 +1,346 @@
+import * as path from 'path'
+import * as tjs from 'typescript-json-schema'
+
+import { TextEmitter } from './emitter'
+import * as parser from './parser'
+import { joinPaths } from './routers'
+
+const INDENT = '    '
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+const RESERVED = ['break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+    'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+    'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with']
+
+/**
+ * An emitter for generating a typed TypeScript client of the API.
+ *
+ * The generated module exports a function for each route, named after its
+ * @operationId tag or otherwise its title, which takes the route's url
+ * parameters, query parameters, headers and body, and resolves with a union of
+ * the documented responses discriminated by status code (exported as the
+ * function's name followed by Response, e.g. GetUserResponse). Types which are
+ * exported from a module of the project are imported from it; other types are
+ * written out from their schemas.
+ */
+export class ClientEmitter extends TextEmitter {
+    // The module each imported type is exported from
+    private imports = new Map<string, string>()
+    // The types written out from schemas, because they could not be imported
+    private declarations = new Map<string, string>()
+    // The functions of the routes which have been emitted
+    private functions: string[] = []
+    private names = new Set<string>()
+
+    public begin() {
+        super.begin()
+        this.imports = new Map()
+        this.declarations = new Map()
+        this.functions = []
+        this.names = new Set()
+    }
+
+    public emit(doc: parser.Documentation.Router) {
+        for (const group of doc.routes) {
+            for (const block of group.methods) {
+                this.functions.push(this.createFunction(block, joinPaths(doc.path, block.path)))
+            }
+        }
+    }
+
+    public render(): string {
+        const files = new Map<string, string[]>()
+        for (const [name, file] of this.imports.entries()) files.set(file, (files.get(file) || []).concat(name))
+        const imports = Array.from(files.keys()).sort()
+            .map(file => `import { ${files.get(file)!.sort().join(', ')} } from '${this.getModulePath(file)}'\n`)
+            .join('')
+        const declarations = Array.from(this.declarations.keys()).sort()
+            .map(name => `export type ${name} = ${this.declarations.get(name)}\n`)
+            .join('\n')
+        return `// Generated by hdoc from the API documentation. Do not edit.
+${imports}${imports ? '\n' : ''}${declarations}${declarations ? '\n' : ''}${renderRuntime(this.config.host || '')}
+${this.functions.join('\n')}`
+    }
+
+    /**
+     * Writes the function which sends a request to a route
+     *
+     * @param url the full path of the route
+     */
+    private createFunction(block: parser.Documentation.Block, url: string): string {
+        const name = this.getFunctionName(block, url)
+        const pathParams = block.params.filter(p => !p.query)
+        const queryParams = block.params.filter(p => p.query)
+
+        const members: string[] = []
+        if (pathParams.length) members.push(`params: ${this.createParamsType(pathParams)}`)
+        if (queryParams.length) {
+            const optional = queryParams.every(p => p.optional) ? '?' : ''
+            members.push(`query${optional}: ${this.createParamsType(queryParams)}`)
+        }
+        if (block.headers.length) {
+            members.push(`headers?: { ${block.headers.map(h => `${formatKey(h.name)}?: string`).join(', ')} }`)
+        }
+        if (block.body) members.push(`body: ${this.createBodyType(block.body)}`)
+        const args = members.length ?
+            `request: {\n${members.map(m => INDENT + m).join('\n')}\n}, options: ClientOptions = {}` :
+            'options: ClientOptions = {}'
+
+        const responseType = name.charAt(0).toUpperCase() + name.slice(1) + 'Response'
+        const urlExpression = '`' + url.replace(/:(\w+)/g, (match, param) =>
+            pathParams.some(p => p.name === param) ?
+                `\${encodeURIComponent(String(request.params.${param}))}` :
+                match) + '`'
+        const call = [
+            'options',
+            `'${block.method.toUpperCase()}'`,
+            urlExpression,
+            queryParams.length ? 'request.query' : 'undefined',
+            block.headers.length ? 'request.headers' : 'undefined',
+            block.body ? 'request.body' : 'undefined',
+            block.body ? `'${block.body.type || (block.body.schema ? 'application/json' : 'text/plain')}'` : 'null'
+        ]
+        return `export type ${responseType} = ${this.createResponsesType(block.responses)}
+
+${renderComment(block)}export function ${name}(${args}): Promise<${responseType}> {
+    return send(${call.join(', ')}) as Promise<${responseType}>
+}
+`
+    }
+
+    /**
+     * Names the function of a route after its @operationId, or otherwise its
+     * title or method and path, adding a number if the name is taken
+     */
+    private getFunctionName(block: parser.Documentation.Block, url: string): string {
+        let base = block.operationId || toCamelCase(block.title) || toCamelCase(`${block.method} ${url}`)
+        if (!IDENTIFIER.test(base) || RESERVED.includes(base)) base = '_' + base
+        let name = base
+        for (let i = 2; this.names.has(name); i++) name = base + i
+        this.names.add(name)
+        return name
+    }
+
+    private createParamsType(params: parser.Documentation.Param[]): string {
+        const members = params.map(p => `${formatKey(p.name)}${p.optional ? '?' : ''}: ${getParamType(p)}`)
+        return `{ ${members.join(', ')} }`
+    }
+
+    private createBodyType(body: parser.Documentation.RequestBody): string {
+        if (body.schema) return this.getType(body.typeName, body.typeFile, body.schema, INDENT)
+        return body.type && !body.type.includes('json') ? 'string' : 'any'
+    }
+
+    /**
+     * Creates the union of the responses of a route, with the body types of
+     * the responses which share a status code combined
+     */
+    private createResponsesType(responses: parser.Documentation.Response[]): string {
+        const codes = responses.map(r => r.code).filter((c, i, all) => all.indexOf(c) === i)
+        if (!codes.length) return 'ApiResponse<number, any>'
+        return codes.map(code => {
+            const types = responses.filter(r => r.code === code).map(r => this.createResponseBodyType(r))
+            return `ApiResponse<${code}, ${types.filter((t, i) => types.indexOf(t) === i).join(' | ')}>`
+        }).join(' | ')
+    }
+
+    private createResponseBodyType(response: parser.Documentation.Response): string {
+        if (response.schema) return this.getType(response.typeName, response.typeFile, response.schema, '')
+        if (response.type) return response.type.includes('json') ? 'any' : 'string'
+        return typeof response.body === 'string' ? 'string' : 'null'
+    }
+
+    /**
+     * Refers to the original declaration of a type if it can be imported, and
+     * otherwise writes the type out from its schema
+     */
+    private getType(typeName: string | null, typeFile: string | null, schema: tjs.Definition, indent: string): string {
+        const importName = typeName && typeName.replace(/(\[\])+$/, '')
+        if (importName && typeFile && IDENTIFIER.test(importName)) {
+            const imported = this.imports.get(importName)
+            if (imported === undefined || imported === typeFile) {
+                this.imports.set(importName, typeFile)
+                return typeName!
+            }
+        }
+        const definitions = schema.definitions || {}
+        for (const name of Object.keys(definitions)) {
+            const declaration = formatDefinitionName(name)
+            if (this.imports.has(declaration) || this.declarations.has(declaration)) continue
+            this.declarations.set(declaration, schemaToType(definitions[name], ''))
+        }
+        return schemaToType(schema, indent)
+    }
+
+    /**
+     * Returns the path to import a source file from the generated module
+     */
+    private getModulePath(file: string): string {
+        const relative = path.relative(path.dirname(path.resolve(this.output.output)), file)
+            .replace(/\\/g, '/')
+            .replace(/(\.d)?\.tsx?$/, '')
+        return relative.startsWith('.') ? relative : './' + relative
+    }
+}
+
+/**
+ * Writes the types and function which the functions of the routes share
+ *
+ * @param host the url the API is served from by default
+ */
+function renderRuntime(host: string): string {
+    return `export interface ClientOptions {
+    /**
+     * The url the API is served from, which defaults to ${host ? `\`${host}\`` : 'the current origin'}
+     */
+    baseUrl?: string
+    /**
+     * Headers sent with every request, such as Authorization
+     */
+    headers?: { [name: string]: string }
+    /**
+     * The implementation of fetch to send requests with
+     */
+    fetch?: typeof fetch
+}
+
+/**
+ * A response of the API, with the body parsed as JSON if it is JSON
+ */
+export interface ApiResponse<Status extends number, Body> {
+    status: Status
+    body: Body
+    headers: Headers
+}
+
+async function send(options: ClientOptions, method: string, url: string, query: { [name: string]: any } | undefined,
+                    headers: { [name: string]: string | undefined } | undefined, body: any,
+                    contentType: string | null): Promise<ApiResponse<number, any>> {
+    const search = Object.keys(query || {})
+        .filter(name => query![name] !== undefined)
+        .map(name => \`\${encodeURIComponent(name)}=\${encodeURIComponent(String(query![name]))}\`)
+        .join('&')
+    const baseUrl = (options.baseUrl !== undefined ? options.baseUrl : ${JSON.stringify(host)}).replace(/\\/$/, '')
+    const requestHeaders: { [name: string]: string } = { ...options.headers }
+    for (const name of Object.keys(headers || {})) {
+        if (headers![name] !== undefined) requestHeaders[name] = headers![name]!
+    }
+    const init: RequestInit = { method, headers: requestHeaders }
+    if (contentType !== null) {
+        requestHeaders['Content-Type'] = contentType
+        init.body = contentType.includes('json') ? JSON.stringify(body) : body
+    }
+    const response = await (options.fetch || fetch)(baseUrl + url + (search ? '?' + search : ''), init)
+    const text = await response.text()
+    const json = (response.headers.get('Content-Type') || '').includes('json')
+    return { status: response.status, headers: response.headers, body: text ? (json ? JSON.parse(text) : text) : null }
+}
+`
+}
+
+function renderComment(block: parser.Documentation.Block): string {
+    const tags: string[] = []
+    if (block.since !== null) tags.push(`@since ${block.since}`)
+    if (block.deprecated !== null) tags.push(`@deprecated ${block.deprecated}`)
+    const lines = [block.title]
+        .concat(block.description ? ['', ...block.description.split('\n')] : [])
+        .concat(tags.length ? [''].concat(tags) : [])
+        .map(line => line.replace(/\*\//g, '*\\/'))
+    return `/**\n${lines.map(line => (' * ' + line).replace(/\s+$/, '')).join('\n')}\n */\n`
+}
+
+/**
+ * Returns the type of a parameter, which is a union of its members if it has
+ * them
+ */
+function getParamType(param: parser.Documentation.Param): string {
+    if (param.members) return param.members.map(m => JSON.stringify(m)).join(' | ')
+    switch ((param.type || '').toLowerCase()) {
+        case 'number':
+        case 'integer':
+            return 'number'
+        case 'boolean':
+            return 'boolean'
+        default:
+            return 'string'
+    }
+}
+
+/**
+ * Converts a schema into a TypeScript type, referring to definitions by name
+ *
+ * @param indent the indentation of the line the type starts on
+ */
+function schemaToType(schema: tjs.Definition, indent: string): string {
+    if (schema.$ref) return formatDefinitionName(schema.$ref.replace(/^.*\//, ''))
+    const constant = (schema as { const?: any }).const
+    if (constant !== undefined) return JSON.stringify(constant)
+    if (schema.enum) return (schema.enum as any[]).map(value => JSON.stringify(value)).join(' | ')
+    if (schema.allOf) return schema.allOf.map(s => wrapUnion(schemaToType(s, indent))).join(' & ')
+    const options = schema.anyOf || schema.oneOf
+    if (options) return options.map(s => schemaToType(s, indent)).join(' | ')
+    if (Array.isArray(schema.type)) return schema.type.map(type => schemaToType({ ...schema, type }, indent)).join(' | ')
+
+    const type = schema.type || (schema.properties ? 'object' : schema.items ? 'array' : undefined)
+    switch (type) {
+        case 'object':
+            return objectToType(schema, indent)
+        case 'array':
+            if (Array.isArray(schema.items)) return `[${schema.items.map(s => schemaToType(s, indent)).join(', ')}]`
+            return `Array<${schema.items ? schemaToType(schema.items, indent) : 'any'}>`
+        case 'integer':
+            return 'number'
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'null':
+            return type
+        default:
+            return 'any'
+    }
+}
+
+function objectToType(schema: tjs.Definition, indent: string): string {
+    const required = schema.required || []
+    const members: string[] = []
+    const inner = indent + INDENT
+    for (const name of Object.keys(schema.properties || {})) {
+        const property = schema.properties![name]
+        const description = property.description ? property.description.replace(/\n/g, ' ').replace(/\*\//g, '*\\/') : ''
+        const comment = (property as { deprecated?: boolean }).deprecated ?
+            `${inner}/**\n${inner} * ${description}\n${inner} * @deprecated\n${inner} */\n` :
+            (description ? `${inner}/** ${description} */\n` : '')
+        members.push(`${comment}${inner}${formatKey(name)}${required.includes(name) ? '' : '?'}: ${schemaToType(property, inner)}`)
+    }
+    if (schema.additionalProperties !== false && (schema.additionalProperties || !members.length)) {
+        const value = schema.additionalProperties && schema.additionalProperties !== true ?
+            schemaToType(schema.additionalProperties, inner) :
+            'any'
+        members.push(`${inner}[key: string]: ${value}`)
+    }
+    return `{\n${members.join('\n')}\n${indent}}`
+}
+
+function wrapUnion(type: string): string {
+    return type.includes(' | ') ? `(${type})` : type
+}
+
+/**
+ * Converts the name of a definition (e.g. Page<User>) into an identifier
+ */
+function formatDefinitionName(name: string): string {
+    return decodeURIComponent(name).replace(/[^\w$]+/g, '_').replace(/_$/, '')
+}
+
+function formatKey(name: string): string {
+    return IDENTIFIER.test(name) ? name : JSON.stringify(name)
+}
+
+/**
+ * Converts a title (e.g. Get a user) into a camel case identifier (getAUser)
+ */
+function toCamelCase(text: string): string {
+    const words = text.replace(/['’]/g, '').split(/[^A-Za-z0-9]+/).filter(w => w)
+    return words.map((word, i) => i === 0 ?
+        word.charAt(0).toLowerCase() + word.slice(1) :
+        word.charAt(0).toUpperCase() + word.slice(1)).join('')
+}
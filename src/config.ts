@@ -1,4 +1,5 @@
 import { readFileSync } from 'fs'
+import { extname } from 'path'
 
 import { NiceError } from './errors'
 
@@ -9,17 +10,155 @@ export interface ConfigDefaults {
     jsonKey: string;
 }
 
-export interface Config {
+/**
+ * The documentation formats which can be written
+ */
+export type OutputFormat = 'blueprint' | 'openapi' | 'validator' | 'client' | 'json' | 'markdown'
+
+const FORMATS: OutputFormat[] = ['blueprint', 'openapi', 'validator', 'client', 'json', 'markdown']
+
+/**
+ * How a problem found in the documentation is reported
+ */
+export type Severity = 'off' | 'warn' | 'error'
+
+const SEVERITIES: Severity[] = ['off', 'warn', 'error']
+
+/**
+ * The problems which are checked for, with how each is reported by default
+ */
+const DEFAULT_RULES = {
+    /** A route has no documentation comment */
+    'undocumented-route': 'warn' as Severity,
+    /** A :param in the path of a route has no @param tag */
+    'missing-param': 'warn' as Severity,
+    /** A @param tag names a parameter which is not in the path of the route */
+    'unknown-param': 'warn' as Severity,
+    /** A @response tag does not give a status code */
+    'missing-status': 'error' as Severity,
+    /** A type given in a tag could not be converted to a schema */
+    'unresolved-type': 'error' as Severity,
+    /** A type given in a tag disagrees with the type in the handler */
+    'type-mismatch': 'warn' as Severity,
+    /** A handler responds with a status code which has no @response tag */
+    'undocumented-status': 'warn' as Severity,
+    /** A @response tag has a status code which the handler never responds with */
+    'unused-response': 'warn' as Severity,
+    /** An @auth tag names a security scheme which is not in the config */
+    'unknown-auth': 'error' as Severity,
+    /** An @example tag cannot be read or does not match the schema */
+    'invalid-example': 'error' as Severity
+}
+
+export type Rule = keyof typeof DEFAULT_RULES
+export type Rules = { [rule in Rule]: Severity }
+
+/**
+ * The ways a request can be authenticated
+ */
+export type SecuritySchemeType = 'bearer' | 'apiKey' | 'cookie'
+
+const SECURITY_SCHEME_TYPES: SecuritySchemeType[] = ['bearer', 'apiKey', 'cookie']
+
+/**
+ * A way of authenticating requests, which routes refer to by name with @auth
+ */
+export interface SecurityScheme {
+    type: SecuritySchemeType
+    /**
+     * The header or query parameter holding an API key, or the name of the
+     * session cookie
+     */
+    name?: string
+    /**
+     * Where an API key is sent
+     */
+    in?: 'header' | 'query'
+    /**
+     * The format of a bearer token (e.g. JWT)
+     */
+    bearerFormat?: string
+    description?: string
+}
+
+/**
+ * Which routes are written to an output
+ */
+export interface RouteFilter {
+    /**
+     * Globs which the full path of a route (e.g. /users/:id) has to match one
+     * of, or empty to include every route
+     */
+    include: string[]
+    /**
+     * Globs of the full paths of routes to leave out
+     */
+    exclude: string[]
+    /**
+     * Tags (given with @tag) which a route has to have one of, or empty to
+     * include every route
+     */
+    tags: string[]
+    /**
+     * Tags of routes to leave out
+     */
+    excludeTags: string[]
+    /**
+     * Whether to include the routes, parameters and schema properties marked
+     * with @internal or @private
+     */
+    internal: boolean
+}
+
+const DEFAULT_FILTER: RouteFilter = { include: [], exclude: [], tags: [], excludeTags: [], internal: true }
+
+/**
+ * A single file that documentation is written to
+ */
+export interface OutputConfig {
     output: string
+    format: OutputFormat
+    /**
+     * Path of a module exporting a custom emitter to write the output with
+     */
+    emitter?: string
+    /**
+     * The audience the output is written for, if it is one of the outputs of
+     * an audience
+     */
+    audience?: string
+    filter: RouteFilter
+}
+
+export interface Config {
+    outputs: OutputConfig[]
     host?: string
     title?: string
     description?: string
+    version?: string
     defaults: ConfigDefaults
     examples: {
         response: { [example: string]: string|number|boolean },
         param: { [example: string]: string }
     }
     afterHook?: string
+    /**
+     * Whether to document status codes that handlers respond with but which
+     * have no @response tag
+     */
+    addMissingResponses: boolean
+    /**
+     * Whether to write the JSON schema of each response and request body in
+     * an API Blueprint, as well as referring to its data structure
+     */
+    inlineSchemas: boolean
+    rules: Rules
+    securitySchemes: { [name: string]: SecurityScheme }
+    /**
+     * The names of the groups (routers and @group tags) to document first, in
+     * order. Other groups follow in the order they are found.
+     */
+    groupOrder: string[]
 }
 
 const defaultDefaults: ConfigDefaults = {
@@ -34,13 +173,56 @@ const defaultDefaults: ConfigDefaults = {
  * required properties.
  */
 export function validateConfig(config: any): Config {
-    const output = config.output
-    if (typeof output !== 'string') throw new Error('Property output is not defined')
+    const filter = validateFilter(config, DEFAULT_FILTER)
+    // A config with audiences does not need outputs of its own
+    const outputs = (config.audiences === undefined || config.output !== undefined || config.outputs !== undefined) ?
+        validateOutputs(config, filter) :
+        []
+    if (config.audiences !== undefined) {
+        if (typeof config.audiences !== 'object' || !config.audiences || Array.isArray(config.audiences))
+            throw new Error('Property audiences should be an object')
+        for (const audience of Object.keys(config.audiences)) {
+            const audienceConfig = config.audiences[audience]
+            if (typeof audienceConfig !== 'object' || !audienceConfig) throw new Error(`Audience ${audience} should be an object`)
+            try {
+                outputs.push(...validateOutputs(audienceConfig, validateFilter(audienceConfig, filter), audience))
+            } catch (e) {
+                throw new Error(`${e.message} in audience ${audience}`)
+            }
+        }
+        if (!outputs.length) throw new Error('Property audiences should have at least one audience')
+    }
 
     const host = (typeof config.host === 'string') ? config.host : undefined
     const title = (typeof config.title === 'string') ? config.title : undefined
     const description = (typeof config.description === 'string') ? config.description : undefined
+    const version = (typeof config.version === 'string') ? config.version : undefined
     const afterHook = (typeof config.afterHook === 'string') ? config.afterHook : undefined
+    const addMissingResponses = config.addMissingResponses === true
+    const inlineSchemas = config.inlineSchemas === true
+
+    const rules: Rules = { ...DEFAULT_RULES }
+    if (config.rules !== undefined) {
+        if (typeof config.rules !== 'object' || !config.rules) throw new Error('Property rules should be an object')
+        for (const rule of Object.keys(config.rules)) {
+            if (!DEFAULT_RULES.hasOwnProperty(rule)) throw new Error(`Unknown rule ${rule}`)
+            if (!SEVERITIES.includes(config.rules[rule]))
+                throw new Error(`Rule ${rule} should be one of ${SEVERITIES.join(', ')}`)
+            rules[rule as Rule] = config.rules[rule]
+        }
+    }
+
+    const securitySchemes: { [name: string]: SecurityScheme } = {}
+    if (config.securitySchemes !== undefined) {
+        if (typeof config.securitySchemes !== 'object' || !config.securitySchemes)
+            throw new Error('Property securitySchemes should be an object')
+        for (const name of Object.keys(config.securitySchemes))
+            securitySchemes[name] = validateSecurityScheme(name, config.securitySchemes[name])
+    }
+
+    if (config.groupOrder !== undefined && (!Array.isArray(config.groupOrder) || config.groupOrder.some((g: any) => typeof g !== 'string')))
+        throw new Error('Property groupOrder should be an array of strings')
+    const groupOrder: string[] = config.groupOrder || []
 
     const defaults = (typeof config.defaults === 'object' && config.defaults ? config.defaults : {})
     for (const key of Object.keys(defaultDefaults) as Array<keyof ConfigDefaults>)
@@ -54,7 +236,93 @@ export function validateConfig(config: any): Config {
             examples.response[index] = examples.param[index] = examples.all[index]
     }
 
-    return { output, host, title, description, defaults, examples, afterHook }
+    return { outputs, host, title, description, version, defaults, examples, afterHook, addMissingResponses, inlineSchemas, rules, securitySchemes,
+        groupOrder }
+}
+
+/**
+ * Validates a security scheme, ensuring API key and cookie schemes say where
+ * the credentials are sent.
+ */
+function validateSecurityScheme(name: string, scheme: any): SecurityScheme {
+    if (typeof scheme !== 'object' || !scheme) throw new Error(`Security scheme ${name} should be an object`)
+    if (!SECURITY_SCHEME_TYPES.includes(scheme.type))
+        throw new Error(`Security scheme ${name} should have a type of ${SECURITY_SCHEME_TYPES.join(', ')}`)
+    if (scheme.type !== 'bearer' && typeof scheme.name !== 'string')
+        throw new Error(`Security scheme ${name} should have the name of the ${scheme.type === 'cookie' ? 'cookie' : 'header or query parameter'}`)
+    if (scheme.in !== undefined && scheme.in !== 'header' && scheme.in !== 'query')
+        throw new Error(`Property in of security scheme ${name} should be header or query`)
+
+    const result: SecurityScheme = { type: scheme.type }
+    if (scheme.type !== 'bearer') result.name = scheme.name
+    if (scheme.type === 'apiKey') result.in = scheme.in || 'header'
+    if (typeof scheme.bearerFormat === 'string') result.bearerFormat = scheme.bearerFormat
+    if (typeof scheme.description === 'string') result.description = scheme.description
+    return result
+}
+
+/**
+ * Validates the outputs of the config or of an audience, given either by an
+ * outputs property or by the properties of a single output.
+ */
+function validateOutputs(config: any, filter: RouteFilter, audience?: string): OutputConfig[] {
+    if (config.outputs === undefined) return [validateOutput(config, filter, audience)]
+    if (!Array.isArray(config.outputs) || !config.outputs.length) throw new Error('Property outputs should be a non-empty array')
+    return config.outputs.map((output: any) => validateOutput(output, filter, audience))
+}
+
+/**
+ * Validates which routes are written to the outputs of the config or of an
+ * audience. Properties which are not given are taken from the base filter.
+ */
+function validateFilter(config: any, base: RouteFilter): RouteFilter {
+    const filter = { ...base }
+    for (const key of ['include', 'exclude', 'tags', 'excludeTags'] as Array<'include' | 'exclude' | 'tags' | 'excludeTags'>) {
+        if (config[key] === undefined) continue
+        if (!Array.isArray(config[key]) || config[key].some((item: any) => typeof item !== 'string'))
+            throw new Error(`Property ${key} should be an array of strings`)
+        filter[key] = config[key]
+    }
+    if (config.internal !== undefined) {
+        if (typeof config.internal !== 'boolean') throw new Error('Property internal should be a boolean')
+        filter.internal = config.internal
+    }
+    return filter
+}
+
+/**
+ * Validates a single output, which is either an object with an output
+ * property or just the name of the output file.
+ */
+function validateOutput(config: any, filter: RouteFilter, audience?: string): OutputConfig {
+    if (typeof config === 'string') config = { output: config }
+    const output = config.output
+    if (typeof output !== 'string') throw new Error('Property output is not defined')
+
+    if (config.format !== undefined && !FORMATS.includes(config.format))
+        throw new Error(`Property format should be one of ${FORMATS.join(', ')}`)
+    const format: OutputFormat = config.format || inferFormat(output)
+
+    if (config.emitter !== undefined && typeof config.emitter !== 'string')
+        throw new Error('Property emitter should be a module path')
+    const emitter = config.emitter
+
+    return { output, format, emitter, audience, filter }
+}
+
+/**
+ * Guesses the format of the documentation from the extension of the output
+ * file, falling back to API Blueprint.
+ */
+function inferFormat(output: string): OutputFormat {
+    switch (extname(output).toLowerCase()) {
+        case '.json':
+        case '.yaml':
+        case '.yml':
+            return 'openapi'
+        default:
+            return 'blueprint'
+    }
 }
 
 /**
@@ -1,11 +1,14 @@
 import * as fs from 'fs'
 import stringify from 'json-stable-stringify'
-import * as path from 'path'
+import * as tjs from 'typescript-json-schema'
 
-import { Config } from './config'
+import { Config, OutputConfig } from './config'
+import { formatTypeName, renderDataStructures } from './mson'
 import * as parser from './parser'
+import { Resource, ResourceGroup, groupResources } from './resources'
 
 const PARAM_INDENT = '  '
+const MEMBER_INDENT = '    '
 const RES_INDENT = '    '
 const BODY_INDENT = '        '
 const JSON_INDENT_LEN = 2
@@ -14,77 +17,174 @@ const JSON_INDENT_LEN = 2
  * Replace koa and express style url params (i.e. /myroute/:param) with the type
  * api blueprint expects (/myroute/{param})
  */
-function formatPath(path: string): string {
+export function formatPath(path: string): string {
     return path.replace(/:([^/]+)/g, '{$1}')
 }
 
+/**
+ * Formats a body or schema to be nested in a request or response section
+ */
+function indentBody(body: any): string {
+    const text = (typeof body === 'string') ? body : stringify(body, { space: JSON_INDENT_LEN })
+    return text.split('\n').map(l => RES_INDENT + BODY_INDENT + l).join('\n')
+}
+
+function formatRequestName(name: string): string {
+    return name ? `Request ${name}` : 'Request'
+}
+
+/**
+ * Writes parsed documentation to an output.
+ *
+ * Once a program has been parsed, begin is called, followed by emit for every
+ * router that was found, and finally close.
+ */
+export interface Emitter {
+    /**
+     * Start writing the documentation (e.g. open the file and write a header).
+     */
+    begin(): void
+    /**
+     * Write the documentation of a single router.
+     */
+    emit(doc: parser.Documentation.Router): void
+    /**
+     * Finish writing the documentation, resolving once it has been written.
+     */
+    close(): Promise<void>
+}
+
+/**
+ * The class exported by a module which implements a custom emitter.
+ */
+export interface EmitterConstructor {
+    new (config: Config, output: OutputConfig): Emitter
+}
+
+/**
+ * Base class for emitters which build their documentation as text, which is
+ * written to the output file when the emitter is closed.
+ */
+export abstract class TextEmitter implements Emitter {
+    private chunks: string[] = []
+
+    constructor(public config: Config, public output: OutputConfig) {}
+
+    public begin() {
+        this.chunks = []
+    }
+
+    public abstract emit(doc: parser.Documentation.Router): void
+
+    /**
+     * Append text to the documentation.
+     */
+    protected write(text: string): void {
+        this.chunks.push(text)
+    }
+
+    /**
+     * Returns the complete text of the documentation emitted so far.
+     */
+    public render(): string {
+        return this.chunks.join('')
+    }
+
+    public async close(): Promise<void> {
+        const text = this.render()
+        await new Promise((resolve, reject) => {
+            fs.writeFile(this.output.output, text, err => err ? reject(err) : resolve())
+        })
+    }
+}
+
 /**
  * An emitter for creating API blueprint files.
  *
  * It takes in a filename to write to as well as some optional metadata, and
  * exports an emit method that writes route documentation to the file.
  */
-export class DocumentationEmitter {
-    private fileStream: fs.WriteStream
+export class DocumentationEmitter extends TextEmitter {
+    // The named types used by requests and responses, written once at the end
+    private structures = new Map<string, tjs.Definition>()
+    private routers: parser.Documentation.Router[] = []
 
-    constructor(public config: Config) {
-        const { host, title, description, output } = config
-        this.fileStream = fs.createWriteStream(output, { autoClose: true })
-        this.emitMetadata(host, title, description)
+    public begin() {
+        super.begin()
+        this.routers = []
     }
 
     /**
      * Write the header and API title + description to the file.
      */
     private emitMetadata(host?: string, title?: string, description?: string) {
-        this.fileStream.write('FORMAT: 1A\n')
-        if (host) this.fileStream.write(`HOST: ${host}\n`)
-        this.fileStream.write('\n')
-        if (title) this.fileStream.write(`# ${title}\n\n`)
-        if (description) this.fileStream.write(description)
-        this.fileStream.write('\n')
+        this.write('FORMAT: 1A\n')
+        if (host) this.write(`HOST: ${host}\n`)
+        this.write('\n')
+        if (title) this.write(`# ${title}\n\n`)
+        if (description) this.write(description)
+        this.write('\n')
     }
 
     /**
-     * Write a set of routes to the file.
+     * Write the file, starting with the API metadata and finishing with the
+     * Data Structures section. The routes of a group may come from several
+     * routers, so nothing is written until every router has been emitted.
      */
+    public render(): string {
+        super.begin()
+        this.structures = new Map()
+        const { host, title, description } = this.config
+        this.emitMetadata(host, title, description)
+        groupResources(this.routers, this.config.groupOrder).forEach(g => this.emitGroup(g))
+        return super.render() + renderDataStructures(this.structures)
+    }
+
     public emit(doc: parser.Documentation.Router) {
-        this.fileStream.write(`\n# Group ${doc.title}\n` + (doc.description || '') + '\n')
-        doc.routes.forEach(g => this.emitGroup(g, doc.path))
+        this.routers.push(doc)
+    }
+
+    /**
+     * Write a group of resources to the file.
+     */
+    private emitGroup(group: ResourceGroup): void {
+        this.write(`\n# Group ${group.name}\n` + group.description + '\n')
+        group.resources.forEach(r => this.emitResource(r))
     }
 
     /**
-     * Write a single route path, with multiple methods, to the file.
-     *
-     * NOTE: this does not actually group them
+     * Write a single route path, with each of its methods, to the file.
      */
-    private emitGroup(doc: parser.Documentation.Group, leadingPath: string): void {
-        doc.methods.forEach(r => this.emitRoute(r, leadingPath))
+    private emitResource(resource: Resource): void {
+        this.write(`\n## ${resource.name} [${formatPath(resource.path)}]\n`)
+        resource.routes.forEach(r => this.emitRoute(r, resource.path))
     }
 
     /**
      * Write a single route HTTP method documentation to the file.
      */
-    private emitRoute(doc: parser.Documentation.Block, leadingPath: string): void {
-        // Emit a group for each path.
-        // We may want to group them in the future, but this allows the script to do its job
-        let url = path.join(leadingPath, formatPath(doc.path))
+    private emitRoute(doc: parser.Documentation.Block, resourcePath: string): void {
+        // Query parameters are given in the URI of the action, since they may
+        // differ between the methods of the resource
         const queryParams = doc.params.filter(p => p.query).map(p => p.name)
-        if (queryParams.length > 0) {
-            url += '{?' + queryParams.join(',') + '}'
-        }
-        this.fileStream.write(`\n## <Unnamed group> [${url}]\n`)
+        const method = doc.method.toUpperCase()
+        const action = queryParams.length ? `${method} ${formatPath(resourcePath)}{?${queryParams.join(',')}}` : method
 
         // Output the route description
-        this.fileStream.write(`\n### ${doc.title} [${doc.method.toUpperCase()}]\n`)
-        this.fileStream.write(doc.description + '\n')
+        this.write(`\n### ${doc.title} [${action}]\n`)
+        this.write(doc.description + '\n')
+        if (doc.deprecated !== null) this.write(`\n**Deprecated**${doc.deprecated ? `: ${doc.deprecated}` : '.'}\n`)
+        if (doc.since !== null) this.write(`\nAvailable since version ${doc.since}.\n`)
+        if (doc.auth.length > 0) {
+            this.write(`\nRequires authentication with ${doc.auth.map(a => `\`${a}\``).join(' or ')}.\n`)
+        }
 
         if (doc.params.length > 0) {
-            this.fileStream.write('\n+ Parameters\n')
+            this.write('\n+ Parameters\n')
             doc.params.forEach(p => this.emitParam(p))
         }
 
-        if (doc.body) this.emitBody(doc.body)
+        this.emitRequest(doc)
         doc.responses.forEach(r => this.emitResponse(r))
     }
 
@@ -92,54 +192,124 @@ export class DocumentationEmitter {
      * Emit a parameter for the route, either found in the url path or the query parameters.
      */
     private emitParam(param: parser.Documentation.Param): void {
-        this.fileStream.write(PARAM_INDENT + `+ ${param.name}: ${(param.query ? encodeURIComponent : encodeURI)(param.example)} (required, ${param.type}) - ${param.description}\n`)
+        const encode = param.query ? encodeURIComponent : encodeURI
+        const type = param.members ? `enum[${typeof param.members[0]}]` : param.type
+        const required = param.optional ? 'optional' : 'required'
+        this.write(PARAM_INDENT + `+ ${param.name}: ${encode(param.example)} (${required}, ${type}) - ${param.description}\n`)
+        if (param.default !== null) {
+            this.write(PARAM_INDENT + MEMBER_INDENT + `+ Default: \`${param.default}\`\n`)
+        }
+        if (param.members) {
+            this.write(PARAM_INDENT + MEMBER_INDENT + '+ Members\n')
+            param.members.forEach(m => this.write(PARAM_INDENT + MEMBER_INDENT + MEMBER_INDENT + `+ \`${m}\`\n`))
+        }
     }
 
     /**
      * Wrie a route response to the file.
      */
     private emitResponse(res: parser.Documentation.Response): void {
-        // Ignore res.when
-        // if (res.when) {
-        //     this.fileStream.write(`\n+ Request ${res.when}\n`)
-        // }
-        this.fileStream.write(`\n+ Response ${res.code}`)
-        // Aglio hightlights the syntax of responses marked with text/plain, but
-        // not ones which don't have syntax highlighting, so we ignore
-        // text/plain types.
-        if (res.type && res.type !== 'text/plain') this.fileStream.write(` (${res.type})`)
-        this.fileStream.write('\n')
-        if (res.body) {
-            this.fileStream.write('\n' + RES_INDENT + '+ Body\n')
-            const body = (typeof res.body === 'string') ? res.body : stringify(res.body, { space: JSON_INDENT_LEN })
-            const indentedBody = body.split('\n').map(l => RES_INDENT + BODY_INDENT + l).join('\n')
-            this.fileStream.write('\n' + indentedBody + '\n')
-        }
-        if (res.schema) {
-            this.fileStream.write('\n' + RES_INDENT + '+ Schema\n')
-            const schemaText = stringify(res.schema, { space: JSON_INDENT_LEN })
-            const indentedSchema = schemaText.split('\n').map(l => RES_INDENT + BODY_INDENT + l).join('\n')
-            this.fileStream.write('\n' + indentedSchema + '\n')
+        // Each named example is written as a separate response
+        const examples = res.examples.length ? res.examples : [{ name: null, value: res.body }]
+        for (const example of examples) {
+            // Ignore res.when
+            // if (res.when) {
+            //     this.write(`\n+ Request ${res.when}\n`)
+            // }
+            this.write(`\n+ Response ${res.code}`)
+            // Aglio hightlights the syntax of responses marked with text/plain, but
+            // not ones which don't have syntax highlighting, so we ignore
+            // text/plain types.
+            if (res.type && res.type !== 'text/plain') this.write(` (${res.type})`)
+            this.write('\n')
+            if (example.name) this.write('\n' + RES_INDENT + example.name + '\n')
+            if (res.headers.length > 0) this.emitHeaders(res.headers.map(h => `${h.name}: ${h.example}`))
+            this.emitAttributes(res.typeName, res.schema)
+            if (example.value !== null && example.value !== undefined) {
+                this.write('\n' + RES_INDENT + '+ Body\n')
+                this.write('\n' + indentBody(example.value) + '\n')
+            }
+            if (res.schema && this.config.inlineSchemas) {
+                this.write('\n' + RES_INDENT + '+ Schema\n')
+                this.write('\n' + indentBody(res.schema) + '\n')
+            }
         }
     }
 
-    private emitBody(body: parser.Documentation.RequestBody): void {
-        //+ Request Create Blog Post (application/json)
-        //       { "message" : "Hello World." }
-        this.fileStream.write(`\n+ Request <name> (${body.type})`)
+    /**
+     * Write the request of a route, with its headers and body, named after the
+     * route or its @request tag.
+     */
+    private emitRequest(doc: parser.Documentation.Block): void {
+        const headers = doc.headers.map(h => `${h.name}: ${h.example}`)
+        // Show how the first security scheme of the route is sent
+        const authHeader = doc.auth.length ? this.getAuthHeader(doc.auth[0]) : null
+        if (authHeader) headers.unshift(authHeader)
+        if (!doc.body && headers.length === 0) return
 
-        const bodyText = (typeof body.body === 'string') ? body.body : stringify(body.body, { space: JSON_INDENT_LEN })
-        const indentedBody = bodyText.split('\n').map(l => RES_INDENT + BODY_INDENT + l).join('\n')
-        // const schemaText = stringify(body.schema, { space: JSON_INDENT_LEN })
-        // const indentedSchema = schemaText.split('\n').map(l => RES_INDENT + BODY_INDENT + l).join('\n')
+        if (!doc.body) {
+            this.write(`\n+ ${formatRequestName(doc.requestName)}\n`)
+            this.emitHeaders(headers)
+            return
+        }
 
-        this.fileStream.write(`\n${indentedBody}\n`)
+        // Each named example is written as a separate request
+        const examples = doc.body.examples.length ? doc.body.examples : [{ name: null, value: doc.body.body }]
+        for (const example of examples) {
+            //+ Request Create Blog Post (application/json)
+            //       { "message" : "Hello World." }
+            this.write(`\n+ ${formatRequestName(example.name || doc.requestName)}`)
+            if (doc.body.type) this.write(` (${doc.body.type})`)
+            this.write('\n')
+            if (headers.length > 0) this.emitHeaders(headers)
+            this.emitAttributes(doc.body.typeName, doc.body.schema)
+            if (example.value !== null && example.value !== undefined) {
+                this.write('\n' + RES_INDENT + '+ Body\n')
+                this.write('\n' + indentBody(example.value) + '\n')
+            }
+            if (doc.body.schema && this.config.inlineSchemas) {
+                this.write('\n' + RES_INDENT + '+ Schema\n')
+                this.write('\n' + indentBody(doc.body.schema) + '\n')
+            }
+        }
     }
 
-    public async close(): Promise<void> {
-        this.fileStream.end()
-        await new Promise((resolve, reject) => {
-            this.fileStream.on('close', resolve)
-        })
+    /**
+     * Refer to the data structure of the type of a request or response,
+     * collecting the type and the types it uses for the Data Structures section.
+     */
+    private emitAttributes(typeName: string | null, schema: tjs.Definition | null): void {
+        if (!typeName || !schema) return
+        const { $schema, definitions, ...root } = schema
+        const name = typeName.replace(/(\[\])+$/, '')
+        let named: tjs.Definition = root
+        while (named.type === 'array' && named.items && !Array.isArray(named.items)) named = named.items
+        if (!this.structures.has(name)) this.structures.set(name, named)
+        for (const definition of Object.keys(definitions || {})) {
+            if (!this.structures.has(definition)) this.structures.set(definition, definitions![definition])
+        }
+        this.write('\n' + RES_INDENT + `+ Attributes (${formatTypeName(typeName)})\n`)
+    }
+
+    private emitHeaders(headers: string[]): void {
+        this.write('\n' + RES_INDENT + '+ Headers\n\n')
+        headers.forEach(h => this.write(RES_INDENT + BODY_INDENT + h + '\n'))
+    }
+
+    /**
+     * Returns an example of the header a security scheme is sent in, if it is
+     * sent in a header.
+     */
+    private getAuthHeader(name: string): string | null {
+        const scheme = this.config.securitySchemes[name]
+        const token = this.config.defaults.string
+        switch (scheme.type) {
+            case 'bearer':
+                return `Authorization: Bearer ${token}`
+            case 'apiKey':
+                return scheme.in === 'header' ? `${scheme.name}: ${token}` : null
+            case 'cookie':
+                return `Cookie: ${scheme.name}=${token}`
+        }
     }
 }
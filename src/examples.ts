@@ -1,7 +1,63 @@
+import Ajv from 'ajv'
 import * as tjs from 'typescript-json-schema'
 
 import { Config } from './config'
 
+// Formats are only documentation, so unknown ones are not an error
+const ajv = new Ajv({ allErrors: true, unknownFormats: 'ignore' })
+
+// How many times a type may be nested inside itself in an example
+const MAX_RECURSION = 1
+
+// Examples of the string formats which typescript-json-schema can emit
+const FORMAT_EXAMPLES: { [format: string]: string } = {
+    'date-time': '2018-01-01T12:00:00Z',
+    'date': '2018-01-01',
+    'time': '12:00:00',
+    'email': 'user@example.com',
+    'hostname': 'example.com',
+    'ipv4': '127.0.0.1',
+    'ipv6': '::1',
+    'uri': 'https://example.com',
+    'uuid': '123e4567-e89b-12d3-a456-426614174000'
+}
+
+/**
+ * The keywords which typescript-json-schema can emit (e.g. from annotations
+ * such as @minimum) but which are missing from its Definition type
+ */
+interface Schema extends tjs.Definition {
+    const?: any
+    examples?: any[]
+    deprecated?: boolean
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: number
+    exclusiveMaximum?: number
+    multipleOf?: number
+    minLength?: number
+    maxLength?: number
+    maxItems?: number
+}
+
+/**
+ * What is needed to create an example from part of a schema
+ */
+interface ExampleContext {
+    config: Config
+    /**
+     * The schema holding the definitions which $refs point to
+     */
+    root: tjs.Definition
+    /**
+     * The $refs which the current part of the schema is nested in
+     */
+    refs: string[]
+}
+
+// Returned in place of an example of a type which is nested too deeply in itself
+const TOO_DEEP = {}
+
 /**
  * Creates an example Body from a schema
  *
@@ -9,34 +65,185 @@ import { Config } from './config'
  * @returns an example body as JSON
  */
 export function createSchemaExample(schema: tjs.Definition, config: Config, name?: string): any {
-    let type = schema.type
-    if (Array.isArray(schema.type) && schema.type.length) type = schema.type[0]
-    const examples = config.examples.response
+    const example = createExample(schema, { config, root: schema, refs: [] }, name)
+    return example === TOO_DEEP ? null : example
+}
+
+function createExample(schema: Schema, context: ExampleContext, name?: string): any {
+    if (schema.$ref) {
+        const ref = schema.$ref
+        if (context.refs.filter(r => r === ref).length >= MAX_RECURSION) return TOO_DEEP
+        return createExample(resolveRef(context.root, ref), { ...context, refs: context.refs.concat(ref) }, name)
+    }
+
+    // Values given in the schema itself come first
+    if (schema.hasOwnProperty('const')) return schema.const
+    if (schema.examples && schema.examples.length) return schema.examples[0]
+    if (schema.default !== undefined) return schema.default
+    if (schema.enum && schema.enum.length) return schema.enum[0]
+
+    if (schema.allOf) return mergeExamples(schema.allOf.map(s => createExample(s, context, name)))
+    const options = schema.anyOf || schema.oneOf
+    if (options) {
+        // Prefer an option which is not null, and which does not nest too deeply
+        const examples = options.filter(s => s.type !== 'null').map(s => createExample(s, context, name))
+        const example = examples.find(e => e !== TOO_DEEP)
+        return example === undefined ? null : example
+    }
+
+    const type = getType(schema)
+    const examples = context.config.examples.response
+    if (type !== 'object' && name && examples.hasOwnProperty(name)) return examples[name]
 
     switch (type) {
-      case 'object':
-        const res = Object.keys(schema.properties || {}).reduce((obj, prop) => {
-          obj[prop] = createSchemaExample(schema.properties![prop], config, prop)
-          return obj
-        }, {} as any);
-        if (schema.additionalProperties && schema.additionalProperties !== true) {
-          res[config.defaults.jsonKey] = createSchemaExample(schema.additionalProperties, config);
+        case 'object':
+            return createObjectExample(schema, context)
+        case 'array':
+            return createArrayExample(schema, context)
+        case 'integer':
+            return createNumberExample(schema, Math.round(context.config.defaults.number), true)
+        case 'number':
+            return createNumberExample(schema, context.config.defaults.number, false)
+        case 'string':
+            return createStringExample(schema, context.config)
+        case 'boolean':
+            return context.config.defaults.boolean
+        case 'null':
+            return null
+        default:
+            // Schemas without a type (such as that of any) accept any value
+            return null
+    }
+}
+
+/**
+ * Returns the type of a schema, preferring any type other than null when a
+ * schema has several
+ */
+function getType(schema: Schema): string | undefined {
+    if (Array.isArray(schema.type)) return schema.type.find(t => t !== 'null') || schema.type[0]
+    if (schema.type) return schema.type
+    if (schema.properties) return 'object'
+    if (schema.items) return 'array'
+    return undefined
+}
+
+/**
+ * Creates an example of an object. Optional properties which would nest a type
+ * too deeply in itself are left out, while required ones are null. Optional
+ * properties which are deprecated are also left out.
+ */
+function createObjectExample(schema: Schema, context: ExampleContext): any {
+    const required = schema.required || []
+    const example: any = {}
+    for (const prop of Object.keys(schema.properties || {})) {
+        if ((schema.properties![prop] as Schema).deprecated && !required.includes(prop)) continue
+        const value = createExample(schema.properties![prop], context, prop)
+        if (value !== TOO_DEEP) example[prop] = value
+        else if (required.includes(prop)) example[prop] = null
+    }
+    if (schema.additionalProperties && schema.additionalProperties !== true) {
+        const value = createExample(schema.additionalProperties, context)
+        if (value !== TOO_DEEP) example[context.config.defaults.jsonKey] = value
+    }
+    return example
+}
+
+/**
+ * Creates an example of an array or tuple with at least one item (or as many
+ * as minItems), which is empty if its items would nest too deeply.
+ */
+function createArrayExample(schema: Schema, context: ExampleContext): any[] {
+    if (Array.isArray(schema.items)) {
+        return schema.items.map(item => createExample(item, context)).map(e => e === TOO_DEEP ? null : e)
+    }
+    if (!schema.items) return []
+    const item = createExample(schema.items, context)
+    if (item === TOO_DEEP) return []
+    let length = Math.max(schema.minItems || 0, 1)
+    if (schema.maxItems !== undefined) length = Math.min(length, schema.maxItems)
+    const example: any[] = []
+    for (let i = 0; i < length; i++) example.push(item)
+    return example
+}
+
+/**
+ * Moves the default number into the range allowed by the schema
+ */
+function createNumberExample(schema: Schema, value: number, integer: boolean): number {
+    const step = integer ? 1 : 0.5
+    if (schema.minimum !== undefined && value < schema.minimum) value = schema.minimum
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) value = schema.exclusiveMinimum + step
+    if (schema.maximum !== undefined && value > schema.maximum) value = schema.maximum
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) value = schema.exclusiveMaximum - step
+    if (schema.multipleOf) value = Math.ceil(value / schema.multipleOf) * schema.multipleOf
+    return integer ? Math.round(value) : value
+}
+
+/**
+ * Creates an example of the format of a string, or pads or cuts the default
+ * string to the length allowed by the schema
+ */
+function createStringExample(schema: Schema, config: Config): string {
+    if (schema.format && FORMAT_EXAMPLES.hasOwnProperty(schema.format)) return FORMAT_EXAMPLES[schema.format]
+    let value = config.defaults.string
+    if (schema.minLength !== undefined) {
+        while (value.length < schema.minLength) value += config.defaults.string || 'a'
+    }
+    if (schema.maxLength !== undefined) value = value.substring(0, schema.maxLength)
+    return value
+}
+
+/**
+ * Combines the examples of the schemas of an allOf, merging the properties of
+ * objects
+ */
+function mergeExamples(examples: any[]): any {
+    const values = examples.filter(e => e !== TOO_DEEP)
+    if (!values.length) return TOO_DEEP
+    if (!values.every(e => typeof e === 'object' && e !== null && !Array.isArray(e))) return values[0]
+    return values.reduce((merged, e) => ({ ...merged, ...e }), {})
+}
+
+/**
+ * Finds the schema a $ref points to within the root schema
+ * (e.g. #/definitions/User)
+ */
+function resolveRef(root: tjs.Definition, ref: string): Schema {
+    if (!ref.startsWith('#/')) throw new Error(`Cannot resolve reference ${ref}`)
+    let schema: any = root
+    for (const part of ref.substring(2).split('/')) {
+        const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~')
+        schema = schema && schema[key]
+    }
+    if (!schema) throw new Error(`Cannot resolve reference ${ref}`)
+    return schema
+}
+
+/**
+ * Follows the $refs of a schema to the definition within the root schema,
+ * stopping at a $ref which cannot be resolved
+ */
+export function resolveSchema(root: tjs.Definition, schema: tjs.Definition): tjs.Definition {
+    const seen: string[] = []
+    while (schema.$ref && !seen.includes(schema.$ref)) {
+        seen.push(schema.$ref)
+        try {
+            schema = resolveRef(root, schema.$ref)
+        } catch (e) {
+            break
         }
-        return res;
-      case 'array':
-        if (name && examples.hasOwnProperty(name)) return examples[name]
-        if (!Array.isArray(schema.items)) return [createSchemaExample(schema.items as tjs.Definition,config)]
-        return schema.items!.map(item => createSchemaExample(item, config))
-      case 'number':
-        if (name && examples.hasOwnProperty(name)) return examples[name]
-        return config.defaults.number
-      case 'string':
-        if (name && examples.hasOwnProperty(name)) return examples[name]
-        return config.defaults.string
-      case 'boolean':
-        if (name && examples.hasOwnProperty(name)) return examples[name]
-        return config.defaults.boolean
-      default:
-        throw new Error(`Unexpected type ${type} in schema ${JSON.stringify(schema)}`)
-    }
-  }
+    }
+    return schema
+}
+
+/**
+ * Checks an example against the schema it is meant to follow
+ *
+ * @returns why the example does not match the schema, or null if it does
+ */
+export function validateExample(schema: tjs.Definition, example: any): string | null {
+    const validate = ajv.compile(schema)
+    if (validate(example)) return null
+    return ajv.errorsText(validate.errors, { dataVar: 'example' })
+}
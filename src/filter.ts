@@ -0,0 +1,129 @@
+import * as tjs from 'typescript-json-schema'
+
+import { RouteFilter } from './config'
+import { resolveSchema } from './examples'
+import { Documentation, SCHEMA_KEYWORDS, SCHEMA_MAP_KEYWORDS } from './parser'
+import { escapeRegExp, joinPaths } from './routers'
+
+/**
+ * Returns the documentation written to an output with a filter, leaving out
+ * the routes which the filter does not include. Unless the filter includes
+ * internal documentation, internal parameters are left out, as are schema
+ * properties marked as internal, along with their values in examples.
+ *
+ * The documentation given is not changed, since it is shared between outputs.
+ */
+export function filterDocumentation(routers: Documentation.Router[], filter: RouteFilter): Documentation.Router[] {
+    const filtered: Documentation.Router[] = []
+    for (const router of routers) {
+        const routes = router.routes
+            .map(group => ({
+                ...group,
+                methods: group.methods.filter(block => includesRoute(filter, router, block)).map(block => filterBlock(filter, block))
+            }))
+            .filter(group => group.methods.length)
+        if (routes.length) filtered.push({ ...router, routes })
+    }
+    return filtered
+}
+
+/**
+ * Checks whether a filter includes a route, by its full path, its tags and
+ * whether it is internal
+ */
+export function includesRoute(filter: RouteFilter, router: Documentation.Router, block: Documentation.Block): boolean {
+    if (block.internal && !filter.internal) return false
+    const path = joinPaths(router.path, block.path)
+    if (filter.include.length && !filter.include.some(glob => matchesGlob(glob, path))) return false
+    if (filter.exclude.some(glob => matchesGlob(glob, path))) return false
+    if (filter.tags.length && !filter.tags.some(tag => block.tags.includes(tag))) return false
+    return !filter.excludeTags.some(tag => block.tags.includes(tag))
+}
+
+function filterBlock(filter: RouteFilter, block: Documentation.Block): Documentation.Block {
+    if (filter.internal) return block
+    return {
+        ...block,
+        params: block.params.filter(param => !param.internal),
+        responses: block.responses.map(response => ({ ...response, ...filterSchema(response) })),
+        body: block.body && { ...block.body, ...filterSchema(block.body) }
+    }
+}
+
+/**
+ * Removes the internal properties from the schema of a response or request
+ * body and from its examples. The type of a schema which had properties
+ * removed can no longer be imported from its file by generated code.
+ */
+function filterSchema(content: Documentation.Response | Documentation.RequestBody) {
+    const { schema, body, examples, typeFile } = content
+    if (!schema) return { schema, body, examples, typeFile }
+    const filtered = removeInternal(schema)
+    return {
+        schema: filtered,
+        body: removeInternalValues(schema, schema, body),
+        examples: examples.map(example => ({ ...example, value: removeInternalValues(schema, schema, example.value) })),
+        typeFile: JSON.stringify(filtered) === JSON.stringify(schema) ? typeFile : null
+    }
+}
+
+/**
+ * Removes the properties marked with x-internal from a schema and the
+ * schemas nested in it
+ */
+function removeInternal(schema: tjs.Definition): tjs.Definition {
+    const result: any = { ...schema }
+    for (const key of SCHEMA_MAP_KEYWORDS) {
+        if (!result[key]) continue
+        const map: { [name: string]: tjs.Definition } = {}
+        for (const name of Object.keys(result[key])) {
+            if (key === 'properties' && result[key][name]['x-internal']) continue
+            map[name] = removeInternal(result[key][name])
+        }
+        result[key] = map
+    }
+    for (const key of SCHEMA_KEYWORDS) {
+        const value = result[key]
+        if (Array.isArray(value)) result[key] = value.map(removeInternal)
+        else if (typeof value === 'object' && value !== null) result[key] = removeInternal(value)
+    }
+    if (result.required && result.properties) {
+        result.required = result.required.filter((name: string) => result.properties.hasOwnProperty(name))
+    }
+    return result
+}
+
+/**
+ * Removes the values of internal properties from an example following a
+ * schema
+ *
+ * @param root the schema holding the definitions which $refs point to
+ */
+function removeInternalValues(root: tjs.Definition, schema: tjs.Definition, value: any): any {
+    schema = resolveSchema(root, schema)
+    for (const key of ['allOf', 'anyOf', 'oneOf'] as Array<'allOf' | 'anyOf' | 'oneOf'>) {
+        for (const member of schema[key] || []) value = removeInternalValues(root, member, value)
+    }
+    if (Array.isArray(value)) {
+        const items = schema.items
+        return items && !Array.isArray(items) ? value.map(item => removeInternalValues(root, items, item)) : value
+    }
+    if (typeof value !== 'object' || value === null || !schema.properties) return value
+    const result: any = {}
+    for (const name of Object.keys(value)) {
+        const property = schema.properties[name]
+        if (property && property['x-internal']) continue
+        result[name] = property ? removeInternalValues(root, property, value[name]) : value[name]
+    }
+    return result
+}
+
+/**
+ * Checks whether a path matches a glob, in which * matches any part of a
+ * segment of the path and ** matches any number of segments
+ */
+export function matchesGlob(glob: string, path: string): boolean {
+    const pattern = glob.split(/(\/\*\*|\*\*|\*)/).map(part =>
+        part === '/**' ? '(?:/.*)?' : part === '**' ? '.*' : part === '*' ? '[^/]*' : escapeRegExp(part)).join('')
+    return new RegExp(`^${pattern}$`).test(path)
+}
@@ -0,0 +1,298 @@
+import ts from 'typescript'
+
+const DEFAULT_STATUS = 200
+// The status of ctx.throw() and failed ctx.assert() calls without one
+const ERROR_STATUS = 500
+const REDIRECT_STATUS = 302
+const JSON_TYPE = 'application/json'
+const TEXT_TYPE = 'text/plain'
+
+/**
+ * What can be learned about a route from the types in its handler's code
+ */
+export interface HandlerInfo {
+  /**
+   * The type of ctx.request.body, if the context is typed (e.g. BodiedCtx<T>)
+   */
+  requestBody: ts.Type | undefined
+  /**
+   * The type of ctx.body, if the context is typed (e.g. TypedCtx<T>)
+   */
+  responseBody: ts.Type | undefined
+  /**
+   * The types of the values assigned to ctx.body, by the status code set
+   * before each assignment
+   */
+  bodies: Map<number, ts.Type[]>
+  /**
+   * The status codes the handler (or a helper it passes the context to) may
+   * respond with, each with the first node which responds with it
+   */
+  statuses: Map<number, ts.Node>
+}
+
+/**
+ * A type which can be documented, either as a named TypeScript type which a
+ * schema can be generated for, or as plain text
+ */
+export interface InferredType {
+  /**
+   * The content type of a value of the type
+   */
+  contentType: string
+  /**
+   * The name of the type as used in @response and @body tags (e.g. User or
+   * User[]), or null for text
+   */
+  typeName: string | null
+}
+
+/**
+ * Finds the function which handles a route: the last argument of the call
+ * registering it, or the function declaration that argument refers to.
+ */
+export function findHandler(node: ts.CallExpression, checker: ts.TypeChecker): ts.FunctionLikeDeclaration | undefined {
+  const last = node.arguments[node.arguments.length - 1]
+  return last && resolveFunction(last, checker)
+}
+
+/**
+ * Returns the declaration of the function an expression refers to, if it is
+ * a function written in the program.
+ */
+function resolveFunction(node: ts.Expression, checker: ts.TypeChecker): ts.FunctionLikeDeclaration | undefined {
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node
+  if (!ts.isIdentifier(node) && !ts.isPropertyAccessExpression(node)) return undefined
+
+  let symbol = checker.getSymbolAtLocation(ts.isIdentifier(node) ? node : node.name)
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+  const declaration = symbol && symbol.valueDeclaration
+  if (!declaration || declaration.getSourceFile().isDeclarationFile) return undefined
+  if (ts.isFunctionDeclaration(declaration) || ts.isMethodDeclaration(declaration)) return declaration
+  if ((ts.isVariableDeclaration(declaration) || ts.isPropertyAssignment(declaration)) && declaration.initializer &&
+      (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))) {
+    return declaration.initializer
+  }
+  return undefined
+}
+
+/**
+ * Examines the context parameter of a route's handler and the responses the
+ * handler sends, returning undefined if the handler cannot be found.
+ */
+export function analyzeHandler(node: ts.CallExpression, checker: ts.TypeChecker): HandlerInfo | undefined {
+  const handler = findHandler(node, checker)
+  if (!handler || !handler.parameters.length) return undefined
+  const ctx = handler.parameters[0]
+  const ctxType = checker.getTypeAtLocation(ctx)
+
+  const request = getPropertyType(ctxType, 'request', ctx, checker)
+  const requestBody = request && getPropertyType(checker.getNonNullableType(request), 'body', ctx, checker)
+  const responseBody = getPropertyType(ctxType, 'body', ctx, checker)
+  const info: HandlerInfo = {
+    requestBody: requestBody && checker.getNonNullableType(requestBody),
+    responseBody,
+    bodies: new Map(),
+    statuses: new Map()
+  }
+  collectResponses(handler, 0, checker, info, [])
+  return info
+}
+
+/**
+ * Walks through a function which takes the context as one of its parameters,
+ * keeping track of the status code and collecting the bodies and statuses it
+ * responds with. Statuses set inside a nested block do not apply after the
+ * block. Functions in the program which are passed the context are followed.
+ *
+ * @param ctxIndex the index of the context parameter
+ * @param visited functions which have already been walked through
+ */
+function collectResponses(fn: ts.FunctionLikeDeclaration, ctxIndex: number, checker: ts.TypeChecker,
+                          info: HandlerInfo, visited: ts.Node[]): void {
+  const param = fn.parameters[ctxIndex]
+  if (!param || !fn.body || visited.includes(fn)) return
+  visited.push(fn)
+  const ctxSymbol = checker.getSymbolAtLocation(param.name)
+  if (!ctxSymbol) return
+  visit(fn.body, DEFAULT_STATUS)
+
+  function visit(node: ts.Node, status: number): void {
+    if (ts.isBlock(node) || ts.isSourceFile(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+      for (const statement of node.statements) {
+        const assigned = getContextAssignment(statement, 'status')
+        if (assigned && ts.isNumericLiteral(assigned)) status = parseInt(assigned.text)
+        visit(statement, status)
+      }
+      return
+    }
+
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      // ctx.body = value
+      if (isContextProperty(node.left, 'body')) {
+        const types = info.bodies.get(status) || []
+        types.push(checker.getTypeAtLocation(node.right))
+        info.bodies.set(status, types)
+        addStatus(status, node)
+      }
+      // ctx.status = 404, or ctx.status = found ? 200 : 404
+      if (isContextProperty(node.left, 'status')) {
+        getNumbers(node.right).forEach(code => addStatus(code, node))
+      }
+    }
+    if (ts.isCallExpression(node)) visitCall(node)
+    node.forEachChild(child => visit(child, status))
+  }
+
+  function visitCall(node: ts.CallExpression): void {
+    const callee = node.expression
+    if (isContextProperty(callee, 'throw')) {
+      // ctx.throw(404) or ctx.throw('message', 404)
+      addStatus(firstNumber(node.arguments) || ERROR_STATUS, node)
+    } else if (isContextProperty(callee, 'assert') ||
+        (ts.isPropertyAccessExpression(callee) && isContextProperty(callee.expression, 'assert'))) {
+      // ctx.assert(value, 403) or ctx.assert.equal(a, b, 400)
+      addStatus(firstNumber(node.arguments.slice(1)) || ERROR_STATUS, node)
+    } else if (isContextProperty(callee, 'redirect')) {
+      addStatus(REDIRECT_STATUS, node)
+    }
+
+    // Follow helpers which are passed the context
+    const index = node.arguments.findIndex(arg => ts.isIdentifier(arg) && checker.getSymbolAtLocation(arg) === ctxSymbol)
+    if (index < 0) return
+    const helper = resolveFunction(callee, checker)
+    if (helper && !helper.getSourceFile().fileName.includes('node_modules')) {
+      collectResponses(helper, index, checker, info, visited)
+    }
+  }
+
+  function addStatus(code: number, node: ts.Node): void {
+    if (!info.statuses.has(code)) info.statuses.set(code, node)
+  }
+
+  // Returns the value assigned in a statement of the form ctx.<property> = value
+  function getContextAssignment(statement: ts.Statement, property: string): ts.Expression | undefined {
+    if (!ts.isExpressionStatement(statement)) return undefined
+    const expr = statement.expression
+    if (!ts.isBinaryExpression(expr) || expr.operatorToken.kind !== ts.SyntaxKind.EqualsToken) return undefined
+    return isContextProperty(expr.left, property) ? expr.right : undefined
+  }
+
+  function isContextProperty(node: ts.Node, property: string): boolean {
+    return ts.isPropertyAccessExpression(node) && node.name.text === property &&
+      checker.getSymbolAtLocation(node.expression) === ctxSymbol
+  }
+}
+
+/**
+ * Returns the numbers an expression may evaluate to, looking through
+ * conditional expressions
+ */
+function getNumbers(node: ts.Expression): number[] {
+  if (ts.isNumericLiteral(node)) return [parseInt(node.text)]
+  if (ts.isParenthesizedExpression(node)) return getNumbers(node.expression)
+  if (ts.isConditionalExpression(node)) return getNumbers(node.whenTrue).concat(getNumbers(node.whenFalse))
+  return []
+}
+
+function firstNumber(nodes: ReadonlyArray<ts.Expression>): number | undefined {
+  const literal = nodes.find(ts.isNumericLiteral)
+  return literal && parseInt(literal.text)
+}
+
+/**
+ * Returns the types that the handler responds with for a status code,
+ * preferring the types of the values assigned to ctx.body with that status.
+ * If there are none, the type of ctx.body is used for successful responses.
+ */
+export function inferResponseTypes(info: HandlerInfo, code: number, checker: ts.TypeChecker): InferredType[] {
+  const declared = info.responseBody ? describeMembers(info.responseBody, checker) : []
+  const declaredObjects = declared.filter(t => t.typeName !== null)
+  const assigned = info.bodies.get(code)
+
+  if (assigned) {
+    const inferred: InferredType[] = []
+    for (const type of assigned) {
+      // Object literals are anonymous, so they are assumed to be of the
+      // declared type of ctx.body
+      const described = describeType(type, checker)
+      if (described) inferred.push(described)
+      else if (declaredObjects.length === 1) inferred.push(declaredObjects[0])
+    }
+    return unique(inferred)
+  }
+
+  if (code < 200 || code >= 300) return []
+  return declaredObjects.length ? declaredObjects : declared
+}
+
+/**
+ * Returns the type of the request body, if it can be documented.
+ */
+export function inferRequestType(info: HandlerInfo, checker: ts.TypeChecker): InferredType | undefined {
+  return info.requestBody && describeType(info.requestBody, checker)
+}
+
+/**
+ * Determine whether the type declared in a tag agrees with what the handler does
+ *
+ * @param type the TypeScript type or content type given in the tag
+ */
+export function matchesInferredType(type: string, inferred: InferredType[]): boolean {
+  if (!inferred.length) return true
+  if (type.includes('/')) {
+    return inferred.some(t => t.typeName === null ? type.startsWith('text/') : !type.startsWith('text/'))
+  }
+  return inferred.some(t => t.typeName === type)
+}
+
+/**
+ * Describes each member of a union type (or the type itself if it is not a union)
+ */
+function describeMembers(type: ts.Type, checker: ts.TypeChecker): InferredType[] {
+  const described = describeType(type, checker)
+  if (described) return [described]
+  if (!type.isUnion()) return []
+  const members: InferredType[] = []
+  for (const member of type.types) {
+    const memberType = describeType(member, checker)
+    if (memberType) members.push(memberType)
+  }
+  return unique(members)
+}
+
+/**
+ * Describes a type if it is text, a named type or an array of a named type
+ */
+function describeType(type: ts.Type, checker: ts.TypeChecker): InferredType | undefined {
+  if (type.flags & ts.TypeFlags.StringLike) return { contentType: TEXT_TYPE, typeName: null }
+  if (type.isUnion()) {
+    // Unions of strings (e.g. string literal types) are still text
+    if (type.types.every(t => !!(t.flags & ts.TypeFlags.StringLike))) return { contentType: TEXT_TYPE, typeName: null }
+    return undefined
+  }
+
+  const symbol = type.aliasSymbol || type.getSymbol()
+  if (!symbol || symbol.name.startsWith('__')) return undefined
+  if (symbol.name === 'Array') {
+    const args = (type as ts.TypeReference).typeArguments
+    const element = args && args.length === 1 ? describeType(args[0], checker) : undefined
+    return (element && element.typeName) ? { contentType: JSON_TYPE, typeName: element.typeName + '[]' } : undefined
+  }
+  // Generic types cannot be converted to schemas by name
+  if ((type as ts.TypeReference).typeArguments && (type as ts.TypeReference).typeArguments!.length) return undefined
+  if (type.aliasTypeArguments && type.aliasTypeArguments.length) return undefined
+  return { contentType: JSON_TYPE, typeName: symbol.name }
+}
+
+function getPropertyType(type: ts.Type, name: string, location: ts.Node, checker: ts.TypeChecker): ts.Type | undefined {
+  const property = checker.getPropertyOfType(type, name)
+  if (!property) return undefined
+  const propertyType = checker.getTypeOfSymbolAtLocation(property, location)
+  if (propertyType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return undefined
+  return propertyType
+}
+
+function unique(types: InferredType[]): InferredType[] {
+  return types.filter((t, i) => types.findIndex(o => o.typeName === t.typeName && o.contentType === t.contentType) === i)
+}
@@ -1,112 +1,204 @@
 /**
- * This version of the script acts like tsc --watch, except it outputs
- * documentation in addition to code.
+ * The programmatic interface of the documentation generator. Unlike the hdoc
+ * command (see cli.ts), importing this module has no side effects.
  */
-import { execSync } from 'child_process'
+import { createTwoFilesPatch } from 'diff'
+import * as fs from 'fs'
+import * as path from 'path'
 import ts from 'typescript'
-import * as yargs from 'yargs'
 
-import { Config, parseConfig } from './config'
-import { DocumentationEmitter } from './emitter'
+import { ClientEmitter } from './client'
+import { Config, OutputConfig, parseConfig, validateConfig } from './config'
+import { DocumentationEmitter, Emitter, EmitterConstructor, TextEmitter } from './emitter'
 import { NiceError } from './errors'
-import { reportDiagnostic, reportWatchStatusChanged, report } from './logger'
-import { createDocumentation } from './parser'
+import { filterDocumentation } from './filter'
+import { JsonEmitter } from './json'
+import { MarkdownEmitter } from './markdown'
+import { OpenAPIEmitter } from './openapi'
+import { Documentation, createDocumentation } from './parser'
+import { ValidatorEmitter } from './validator'
 
-const DEFAULT_CONFIG = './docconfig.json'
+export { BreakingChange, BreakingChangeReport, checkBreakingChanges, findBreakingChanges, formatBreakingChange, readAllowList } from './breaking'
+export { Changelog, Route, RouteChanges, compareDocumentation, getRouteKey, indexRoutes, renderChangelog } from './changelog'
+export { ClientEmitter } from './client'
+export { Config, ConfigDefaults, OutputConfig, OutputFormat, RouteFilter, parseConfig, validateConfig } from './config'
+export { DocumentationEmitter, Emitter, EmitterConstructor, TextEmitter, formatPath } from './emitter'
+export { NiceError } from './errors'
+export { filterDocumentation, includesRoute, matchesGlob } from './filter'
+export { DOCUMENTATION_FORMAT_VERSION, DocumentationSnapshot, JsonEmitter, createSnapshot, readSnapshot } from './json'
+export { MarkdownEmitter } from './markdown'
+export { OpenAPIEmitter } from './openapi'
+export { Documentation, createDocumentation } from './parser'
+export { Resource, ResourceGroup, getResourceName, groupResources, sortGroups } from './resources'
+export { ValidatorEmitter } from './validator'
 
-const argv = yargs
-    .usage('Usage: $0 [options]')
-    .example('$0 -p docconfig.json', 'Compile with parameters described in doccconfig.json')
-    .alias('p', 'project')
-    .describe('p', 'Path to a docconfig.json file describing documentation compilation parameters')
-    .nargs('p', 1)
-    .help('h')
-    .alias('h', 'help')
-    .alias('w', 'watch')
-    .describe('w', 'Watch input files')
-    .boolean('w')
-    .argv
+export interface GenerateOptions {
+    /**
+     * Path to the tsconfig.json of the project to document. If not given, it
+     * is searched for from the working directory.
+     */
+    tsconfig?: string
+    /**
+     * Either the path to a docconfig.json file or the contents of one
+     */
+    config: string | object
+    /**
+     * Whether to write each output to its file (true by default)
+     */
+    write?: boolean
+}
 
-try {
-    let config = parseConfig(argv.project || DEFAULT_CONFIG)
-    watchMain(config)
-} catch (e) {
-    if (!(e instanceof NiceError)) throw e
-    console.error(e.message)
+export interface GeneratedOutput {
+    output: OutputConfig
+    /**
+     * The emitted documentation, or null if the output's emitter does not
+     * produce text
+     */
+    text: string | null
 }
 
-// Runs the watcher
-function watchMain(config: Config) {
-    const configPath = ts.findConfigFile(
-        './',
-        ts.sys.fileExists,
-        'tsconfig.json'
-    )
-    if (!configPath) {
-        throw new Error('Could not find a valid \'tsconfig.json\'.')
-    }
+/**
+ * The difference between the documentation an output would be written with
+ * and the file currently at the output
+ */
+export interface OutputDrift {
+    output: OutputConfig
+    /**
+     * A unified diff from the current file to the generated documentation
+     */
+    patch: string
+}
+
+export interface GenerateResult {
+    routers: Documentation.Router[]
+    outputs: GeneratedOutput[]
+}
 
-    // TypeScript can use several different program creation 'strategies':
-    //    * ts.createEmitAndSemanticDiagnosticsBuilderProgram,
-    //    * ts.createSemanticDiagnosticsBuilderProgram
-    //    * ts.createAbstractBuilder
-    // The first two produce 'builder programs'. These use an incremental strategy
-    // to only re-check and emit files whose contents may have changed, or whose
-    // dependencies may have changes which may impact change the result of prior
-    // type-check and emit.
-    // The last uses an ordinary program which does a full type check after every
-    // change.
-    // Between `createEmitAndSemanticDiagnosticsBuilderProgram` and
-    // `createSemanticDiagnosticsBuilderProgram`, the only difference is emit.
-    // For pure type-checking scenarios, or when another tool/process handles emit,
-    // using `createSemanticDiagnosticsBuilderProgram` may be more desirable.
-    const createProgram = ts.createSemanticDiagnosticsBuilderProgram
+/**
+ * Parses the documentation of a TypeScript project and emits it to the
+ * outputs given in the config.
+ */
+export async function generateDocs(options: GenerateOptions): Promise<GenerateResult> {
+    const config = (typeof options.config === 'string') ?
+        parseConfig(options.config) :
+        validateConfig(options.config)
+    const program = createProgram(options.tsconfig)
+    const routers = createDocumentation(program.getSourceFiles(), program, config)
+    const outputs = await emitDocumentation(config, routers, options.write !== false)
+    return { routers, outputs }
+}
 
-    // Note that there is another overload for `createWatchCompilerHost` that takes
-    // a set of root files.
-    const host = ts.createWatchCompilerHost(
-        configPath,
-        {},
-        ts.sys,
-        createProgram,
-        reportDiagnostic,
-        reportWatchStatusChanged
-    )
+/**
+ * Writes the parsed documentation to every output given in the config, with
+ * only the routes included by the output's filter.
+ *
+ * @param write whether to write the outputs to their files, or only render them
+ * @returns the text of each output
+ */
+export async function emitDocumentation(config: Config, routers: Documentation.Router[], write = true): Promise<GeneratedOutput[]> {
+    const emitters = config.outputs.map(output => createEmitter(config, output))
+    emitters.forEach((emitter, i) => {
+        emitter.begin()
+        filterDocumentation(routers, config.outputs[i].filter).forEach(router => emitter.emit(router))
+    })
+    const outputs = emitters.map((emitter, i) => ({
+        output: config.outputs[i],
+        text: (emitter instanceof TextEmitter) ? emitter.render() : null
+    }))
+    if (write) await Promise.all(emitters.map(emitter => emitter.close()))
+    return outputs
+}
 
-    // You can technically override any given hook on the host, though you probably
-    // don't need to.
-    // Note that we're assuming `origCreateProgram` and `origPostProgramCreate`
-    // doesn't use `this` at all.
-    const origCreateProgram = host.createProgram
-    host.createProgram = (
-        rootNames: ReadonlyArray<string>|undefined,
-        options,
-        host,
-        oldProgram
-    ) => {
-        // console.log('info', '', 'Creating program...')
-        // Here we have access to the names of the typscript files that will bget compiled
-        // We could use the ts.createSourceFile function for each to get the AST for each file.
-        // const program = ts.createProgram(rootNames || [], options || {})
-        // createDocumentation(createSourceFiles(rootNames || []), program)
-        // process.exit(0) // After we do our work just quit
-        return origCreateProgram(rootNames, options, host, oldProgram)
+/**
+ * Renders the documentation in memory and compares it with the files already
+ * at each output, without writing them. Outputs whose emitters do not produce
+ * text cannot be compared and are skipped.
+ *
+ * @returns the outputs which are out of date, each with a diff of its changes
+ */
+export async function findDrift(config: Config, routers: Documentation.Router[]): Promise<OutputDrift[]> {
+    const drift: OutputDrift[] = []
+    for (const { output, text } of await emitDocumentation(config, routers, false)) {
+        if (text === null) continue
+        const current = await readOutput(output.output)
+        if (current === text) continue
+        const patch = createTwoFilesPatch(output.output, output.output, current || '', text,
+            current === null ? '(missing)' : 'current', 'generated')
+        drift.push({ output, patch })
     }
-    const origPostProgramCreate = host.afterProgramCreate
+    return drift
+}
 
-    host.afterProgramCreate = program => {
-        config = parseConfig(argv.project || DEFAULT_CONFIG)
-        origPostProgramCreate!(program)
-        const emitter = new DocumentationEmitter(config)
-        createDocumentation(program.getSourceFiles(), program.getProgram(), emitter)
-        emitter.close().then(() => {
-            if (config.afterHook) execSync(config.afterHook)
-            if (!argv.watch) process.exit(0)
+/**
+ * Reads the file at an output, or returns null if it has not been written
+ */
+function readOutput(file: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        fs.readFile(file, 'utf8', (err, data) => {
+            if (err && err.code === 'ENOENT') resolve(null)
+            else if (err) reject(err)
+            else resolve(data)
         })
-        .catch(console.error);
+    })
+}
+
+/**
+ * Creates the emitter for an output given in the config, loading it from a
+ * module if the output names one.
+ */
+export function createEmitter(config: Config, output: OutputConfig): Emitter {
+    if (output.emitter) {
+        const EmitterClass = loadEmitter(output.emitter)
+        return new EmitterClass(config, output)
+    }
+    switch (output.format) {
+        case 'openapi':
+            return new OpenAPIEmitter(config, output)
+        case 'validator':
+            return new ValidatorEmitter(config, output)
+        case 'client':
+            return new ClientEmitter(config, output)
+        case 'json':
+            return new JsonEmitter(config, output)
+        case 'markdown':
+            return new MarkdownEmitter(config, output)
+        default:
+            return new DocumentationEmitter(config, output)
+    }
+}
+
+/**
+ * Requires a module implementing an emitter, which should export the emitter
+ * class either as the module itself or as its default export. Relative paths
+ * are resolved from the working directory.
+ */
+function loadEmitter(modulePath: string): EmitterConstructor {
+    const resolved = modulePath.startsWith('.') ? path.resolve(modulePath) : modulePath
+    let mod
+    try {
+        mod = require(resolved)
+    } catch (e) {
+        throw new NiceError(`Error: Could not load emitter ${modulePath}.\n  ${e.message}`)
+    }
+    const EmitterClass = (mod && typeof mod.default === 'function') ? mod.default : mod
+    if (typeof EmitterClass !== 'function') {
+        throw new NiceError(`Error: Emitter ${modulePath} should export an emitter class.`)
     }
+    return EmitterClass
+}
 
-    // `createWatchProgram` creates an initial program, watches files, and updates
-    // the program over time.
-    ts.createWatchProgram(host)
+/**
+ * Creates a program from a tsconfig.json file, without watching it.
+ */
+function createProgram(tsconfig?: string): ts.Program {
+    const configPath = tsconfig || ts.findConfigFile('./', ts.sys.fileExists, 'tsconfig.json')
+    if (!configPath) {
+        throw new NiceError('Error: Could not find a valid \'tsconfig.json\'.')
+    }
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile)
+    if (error) {
+        throw new NiceError(`Error: Could not read ${configPath}.\n  ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`)
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath))
+    return ts.createProgram(parsed.fileNames, parsed.options)
 }
@@ -0,0 +1,149 @@
+import { readFileSync } from 'fs'
+import stringify from 'json-stable-stringify'
+import * as path from 'path'
+
+import { Config } from './config'
+import { TextEmitter } from './emitter'
+import { NiceError } from './errors'
+import * as parser from './parser'
+
+const JSON_INDENT_LEN = 2
+
+/**
+ * The version of the JSON documentation format, which is increased whenever
+ * the format changes in a way which could break the tools reading it. The
+ * format is described by schema/documentation.schema.json.
+ */
+export const DOCUMENTATION_FORMAT_VERSION = 1
+
+/**
+ * The documentation written by an output with the json format
+ */
+export interface DocumentationSnapshot {
+    version: number
+    api: { title: string | null, description: string | null, host: string | null, version: string | null }
+    routers: parser.Documentation.Router[]
+}
+
+/**
+ * Reads documentation written by an output with the json format, such as the
+ * documentation of an earlier version of the API. Properties which were added
+ * to the format after the snapshot was written are filled in.
+ */
+export function readSnapshot(file: string): DocumentationSnapshot {
+    let snapshot
+    try {
+        snapshot = JSON.parse(readFileSync(file).toString())
+    } catch (e) {
+        throw new NiceError(`Error: Could not read documentation ${file}.\n  ${e.message}`)
+    }
+    if (!snapshot || snapshot.version !== DOCUMENTATION_FORMAT_VERSION || !Array.isArray(snapshot.routers)) {
+        throw new NiceError(`Error: ${file} is not documentation written by a json output of version ${DOCUMENTATION_FORMAT_VERSION}.`)
+    }
+    for (const router of snapshot.routers) {
+        for (const group of router.routes) {
+            for (const block of group.methods) {
+                if (block.deprecated === undefined) block.deprecated = null
+                if (block.since === undefined) block.since = null
+                if (block.internal === undefined) block.internal = false
+                if (block.tags === undefined) block.tags = []
+                if (block.group === undefined) block.group = null
+                if (block.resource === undefined) block.resource = null
+                for (const param of block.params) {
+                    if (param.internal === undefined) param.internal = false
+                }
+            }
+        }
+    }
+    return snapshot
+}
+
+/**
+ * An emitter for writing the parsed documentation itself as JSON, so that
+ * other tools can use it without parsing the code again.
+ *
+ * Every router, route, parameter, header, response, request body and example
+ * is written with its location in the source code. Paths of source files are
+ * relative to the working directory.
+ */
+export class JsonEmitter extends TextEmitter {
+    private routers: parser.Documentation.Router[] = []
+
+    public begin() {
+        super.begin()
+        this.routers = []
+    }
+
+    public emit(doc: parser.Documentation.Router) {
+        this.routers.push(doc)
+    }
+
+    public render(): string {
+        return stringify(createSnapshot(this.config, this.routers), { space: JSON_INDENT_LEN }) + '\n'
+    }
+}
+
+/**
+ * Creates the documentation which an output with the json format would
+ * write, so that it can be compared with a snapshot without writing it
+ */
+export function createSnapshot(config: Config, routers: parser.Documentation.Router[]): DocumentationSnapshot {
+    const { title, description, host, version } = config
+    return {
+        version: DOCUMENTATION_FORMAT_VERSION,
+        api: { title: title || null, description: description || null, host: host || null, version: version || null },
+        routers: routers.map(serializeRouter)
+    }
+}
+
+function serializeRouter(router: parser.Documentation.Router): any {
+    return {
+        path: router.path,
+        title: router.title,
+        description: router.description || null,
+        location: router.location && serializeLocation(router.location),
+        routes: router.routes.map(group => ({ path: group.path, methods: group.methods.map(serializeBlock) }))
+    }
+}
+
+function serializeBlock(block: parser.Documentation.Block): any {
+    return {
+        ...block,
+        params: block.params.map(param => ({ ...param, location: serializeLocation(param.location) })),
+        headers: block.headers.map(serializeHeader),
+        responses: block.responses.map(response => ({
+            ...response,
+            typeFile: response.typeFile && serializeFile(response.typeFile),
+            headers: response.headers.map(serializeHeader),
+            examples: response.examples.map(serializeExample),
+            location: serializeLocation(response.location)
+        })),
+        body: block.body && {
+            ...block.body,
+            typeFile: block.body.typeFile && serializeFile(block.body.typeFile),
+            examples: block.body.examples.map(serializeExample),
+            location: serializeLocation(block.body.location)
+        },
+        location: serializeLocation(block.location)
+    }
+}
+
+function serializeHeader(header: parser.Documentation.Header): any {
+    return { ...header, location: serializeLocation(header.location) }
+}
+
+function serializeExample(example: parser.Documentation.Example): any {
+    return { ...example, location: serializeLocation(example.location) }
+}
+
+function serializeLocation(location: parser.Documentation.Location): parser.Documentation.Location {
+    return { file: serializeFile(location.file), line: location.line }
+}
+
+/**
+ * Makes the path of a source file relative to the working directory, with
+ * forward slashes on every platform
+ */
+function serializeFile(file: string): string {
+    return path.relative(process.cwd(), file).replace(/\\/g, '/')
+}
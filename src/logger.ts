@@ -1,5 +1,10 @@
 import * as ts from 'typescript'
 
+import { Rule, Severity } from './config'
+
+// The number of errors found in the documentation since the count was reset
+let errorCount = 0
+
 const formatHost: ts.FormatDiagnosticsHost = {
     getCanonicalFileName: path => path,
     getCurrentDirectory: ts.sys.getCurrentDirectory,
@@ -30,6 +35,7 @@ export function reportWatchStatusChanged(diagnostic: ts.Diagnostic) {
  * @param clipToLine Whether the clip the context at one line
  */
 export function report(category: ts.DiagnosticCategory, sourceFile: ts.SourceFile, node: ts.Node, message: string, clipToLine=true) {
+    if (category === ts.DiagnosticCategory.Error) errorCount++
     const start = node.getStart()
     const end = Math.min(sourceFile.getLineEndOfPosition(start), node.getEnd())
     // @ts-ignore
@@ -52,6 +58,7 @@ export function report(category: ts.DiagnosticCategory, sourceFile: ts.SourceFil
  * @param message    The message to log
  */
 export function reportLine(category: ts.DiagnosticCategory, sourceFile: ts.SourceFile, line: number, message: string) {
+    if (category === ts.DiagnosticCategory.Error) errorCount++
     const start = sourceFile.getPositionOfLineAndCharacter(line, 0)
     // @ts-ignore
     reportDiagnostic({
@@ -78,3 +85,37 @@ export function errLine(sourceFile: ts.SourceFile, line: number, message: string
 export function warnLine(sourceFile: ts.SourceFile, line: number, message: string) {
     reportLine(ts.DiagnosticCategory.Warning, sourceFile, line, message)
 }
+
+/**
+ * Report a problem found by a rule with the severity configured for the rule
+ * @param rule       The rule which found the problem
+ * @param severity   How the rule is configured to be reported
+ * @param sourceFile The file the problem is in
+ * @param location   The node or line of the problem
+ * @param message    The message to log
+ */
+export function reportRule(rule: Rule, severity: Severity, sourceFile: ts.SourceFile, location: ts.Node | number, message: string) {
+    if (severity === 'off') return
+    const category = (severity === 'error') ? ts.DiagnosticCategory.Error : ts.DiagnosticCategory.Warning
+    if (typeof location === 'number') reportLine(category, sourceFile, location, `${message} (${rule})`)
+    else report(category, sourceFile, location, `${message} (${rule})`)
+}
+
+/**
+ * Returns the number of errors reported since the count was last reset
+ */
+export function getErrorCount(): number {
+    return errorCount
+}
+
+export function resetErrorCount() {
+    errorCount = 0
+}
+
+/**
+ * Adds errors which were reported in an earlier run to the count, such as
+ * those of files whose documentation is reused
+ */
+export function addErrorCount(count: number) {
+    errorCount += count
+}
@@ -0,0 +1,212 @@
+import stringify from 'json-stable-stringify'
+
+import { TextEmitter } from './emitter'
+import * as parser from './parser'
+import { ResourceGroup, groupResources } from './resources'
+
+const JSON_INDENT_LEN = 2
+
+// The languages of fenced code blocks holding bodies of each content type
+const CODE_LANGUAGES: { [type: string]: string } = {
+    'application/json': 'json',
+    'application/xml': 'xml',
+    'text/html': 'html',
+    'text/xml': 'xml'
+}
+
+/**
+ * An emitter for writing the documentation as Markdown, for reading in wikis
+ * and READMEs.
+ *
+ * Each group (usually a router) is written as a section, listed in a table of
+ * contents at the start. Each route has a heading with its method and path,
+ * followed by tables of its parameters and headers, and examples of its
+ * request and responses in fenced code blocks. The JSON schemas of bodies are
+ * written in collapsible sections.
+ */
+export class MarkdownEmitter extends TextEmitter {
+    private routers: parser.Documentation.Router[] = []
+    // The anchors of the headings which have been written, so that each is unique
+    private anchors = new Set<string>()
+
+    public begin() {
+        super.begin()
+        this.routers = []
+    }
+
+    public emit(doc: parser.Documentation.Router) {
+        this.routers.push(doc)
+    }
+
+    /**
+     * Write the document. The routes of a group may come from several
+     * routers, so nothing is written until every router has been emitted.
+     */
+    public render(): string {
+        super.begin()
+        const { title, description, host } = this.config
+        // The title and the table of contents have anchors as well
+        this.anchors = new Set()
+        this.createAnchor(title || 'API')
+        this.createAnchor('Contents')
+        this.write(`# ${title || 'API'}\n`)
+        if (description) this.write(`\n${description}\n`)
+        if (host) this.write(`\nHost: \`${host}\`\n`)
+
+        const groups = groupResources(this.routers, this.config.groupOrder)
+        // Headings are written after the table of contents, but their anchors
+        // are needed for it
+        const groupAnchors = groups.map(g => this.createAnchor(g.name))
+        const routeAnchors = groups.map(g => g.resources.map(r => r.routes.map(route => this.createAnchor(formatHeading(route, r.path)))))
+        this.write('\n## Contents\n\n')
+        groups.forEach((group, i) => {
+            this.write(`- [${escapeText(group.name)}](#${groupAnchors[i]})\n`)
+            group.resources.forEach((resource, j) => resource.routes.forEach((route, k) => {
+                this.write(`  - [${formatHeading(route, resource.path, escapeText)}](#${routeAnchors[i][j][k]})\n`)
+            }))
+        })
+        groups.forEach(group => this.emitGroup(group))
+        return super.render()
+    }
+
+    /**
+     * Write a group with each of its routes.
+     */
+    private emitGroup(group: ResourceGroup): void {
+        this.write(`\n## ${group.name}\n`)
+        if (group.description.trim()) this.write(`\n${group.description.trim()}\n`)
+        for (const resource of group.resources) {
+            resource.routes.forEach(route => this.emitRoute(route, resource.path))
+        }
+    }
+
+    /**
+     * Write a single route HTTP method documentation.
+     */
+    private emitRoute(doc: parser.Documentation.Block, fullPath: string): void {
+        this.write(`\n### ${formatHeading(doc, fullPath)}\n`)
+        if (doc.description) this.write(`\n${doc.description}\n`)
+        if (doc.deprecated !== null) this.write(`\n**Deprecated**${doc.deprecated ? `: ${doc.deprecated}` : '.'}\n`)
+        if (doc.since !== null) this.write(`\nAvailable since version ${doc.since}.\n`)
+        if (doc.auth.length > 0) {
+            this.write(`\nRequires authentication with ${doc.auth.map(a => `\`${a}\``).join(' or ')}.\n`)
+        }
+
+        if (doc.params.length > 0) {
+            this.write('\n#### Parameters\n\n')
+            this.writeTable(['Name', 'In', 'Type', 'Required', 'Description'], doc.params.map(p => [
+                `\`${p.name}\``,
+                p.query ? 'query' : 'path',
+                p.members ? p.members.map(m => `\`${m}\``).join(', ') : p.type ? `\`${p.type}\`` : '',
+                p.optional ? 'No' : 'Yes',
+                p.description + (p.default !== null ? ` (default \`${p.default}\`)` : '')
+            ]))
+        }
+        if (doc.headers.length > 0) {
+            this.write('\n#### Headers\n\n')
+            this.emitHeaders(doc.headers)
+        }
+
+        if (doc.body) {
+            this.write('\n#### Request\n')
+            this.emitContent(doc.body)
+        }
+        if (doc.responses.length > 0) {
+            this.write('\n#### Responses\n')
+            doc.responses.forEach(r => this.emitResponse(r))
+        }
+    }
+
+    private emitResponse(res: parser.Documentation.Response): void {
+        this.write(`\n##### ${res.code}${res.when ? ` - ${res.when}` : ''}\n`)
+        if (res.headers.length > 0) {
+            this.write('\n')
+            this.emitHeaders(res.headers)
+        }
+        this.emitContent(res)
+    }
+
+    /**
+     * Write the content type, examples and schema of a request or response
+     * body. Each named example is written separately.
+     */
+    private emitContent(content: parser.Documentation.Response | parser.Documentation.RequestBody): void {
+        if (content.type || content.typeName) {
+            const parts = [content.type && `\`${content.type}\``, content.typeName && `of type \`${content.typeName}\``]
+            this.write(`\n${parts.filter(p => p).join(' ')}\n`)
+        }
+        const examples = content.examples.length ? content.examples : [{ name: null, value: content.body }]
+        for (const example of examples) {
+            if (example.value === null || example.value === undefined) continue
+            if (example.name) this.write(`\nExample: ${example.name}\n`)
+            this.writeCode(example.value, content.type)
+        }
+        if (content.schema) {
+            this.write('\n<details>\n<summary>Schema</summary>\n')
+            this.writeCode(content.schema, 'application/json')
+            this.write('\n</details>\n')
+        }
+    }
+
+    private emitHeaders(headers: parser.Documentation.Header[]): void {
+        this.writeTable(['Name', 'Type', 'Description', 'Example'],
+            headers.map(h => [`\`${h.name}\``, `\`${h.type}\``, h.description, `\`${h.example}\``]))
+    }
+
+    private writeTable(headings: string[], rows: string[][]): void {
+        this.write(`| ${headings.join(' | ')} |\n`)
+        this.write(`|${headings.map(() => '-').join('|')}|\n`)
+        rows.forEach(row => this.write(`| ${row.map(escapeCell).join(' | ')} |\n`))
+    }
+
+    /**
+     * Write a body in a fenced code block, formatting objects as JSON
+     */
+    private writeCode(value: any, type: string | null): void {
+        const text = (typeof value === 'string') ? value : stringify(value, { space: JSON_INDENT_LEN })
+        const language = (typeof value === 'string') ? CODE_LANGUAGES[type || ''] || '' : 'json'
+        // The fence has to be longer than any run of backticks in the body
+        const runs = text.match(/`+/g) || []
+        const fence = '`'.repeat(Math.max(3, ...runs.map(r => r.length + 1)))
+        this.write(`\n${fence}${language}\n${text}\n${fence}\n`)
+    }
+
+    /**
+     * Returns the anchor of a heading as GitHub creates it, adding a number to
+     * anchors which have already been used. GitLab creates the same anchor
+     * unless the heading would give repeated hyphens, which GitLab collapses
+     * into one, so headings are written without dashes between their parts.
+     */
+    private createAnchor(heading: string): string {
+        const base = heading.toLowerCase().trim().replace(/[^\w\- ]/g, '').replace(/ /g, '-')
+        let anchor = base
+        for (let i = 1; this.anchors.has(anchor); i++) anchor = `${base}-${i}`
+        this.anchors.add(anchor)
+        return anchor
+    }
+}
+
+/**
+ * Returns the heading of a route, with its method and full path as code
+ * followed by its title (e.g. `GET /users/:id` Get a user)
+ *
+ * @param escape escapes the title, such as for the text of a link
+ */
+function formatHeading(doc: parser.Documentation.Block, fullPath: string,
+                       escape: (text: string) => string = text => text): string {
+    return `\`${doc.method.toUpperCase()} ${fullPath}\` ${escape(doc.title)}`.trim()
+}
+
+/**
+ * Escapes the characters of text which would be read as Markdown in a link
+ */
+function escapeText(text: string): string {
+    return text.replace(/[\\[\]*_`]/g, '\\$&')
+}
+
+/**
+ * Escapes text to fit in a single cell of a table
+ */
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
@@ -0,0 +1,186 @@
+import { Server } from 'http'
+import Koa from 'koa'
+
+import * as parser from './parser'
+import { createPathPattern, joinPaths } from './routers'
+
+const NUMBER_TYPES = ['number', 'integer']
+
+/**
+ * A documented route which the mock server answers, with the pattern its
+ * full path is matched against
+ */
+interface MockRoute {
+    method: string
+    path: string
+    pattern: RegExp
+    names: string[]
+    block: parser.Documentation.Block
+}
+
+/**
+ * The response which a request asks for with a Prefer header
+ * (e.g. Prefer: code=404, example=eastern) or with the __code and __example
+ * query parameters
+ */
+interface Preference {
+    code: number | null
+    example: string | null
+}
+
+/**
+ * A local server which answers each documented route with the example of one
+ * of its responses, so that clients can be written before the API exists.
+ *
+ * By default a route answers with its first successful (2xx) response, or its
+ * first response if none is successful. The example body, content type and
+ * headers of the response are sent, with any properties named after a url
+ * parameter set to the parameter's value.
+ */
+export class MockServer {
+    private routes: MockRoute[] = []
+    private server: Server | null = null
+
+    constructor(private port: number) {}
+
+    /**
+     * Replaces the routes which are answered, such as after the documentation
+     * is parsed again
+     */
+    public setRoutes(routers: parser.Documentation.Router[]) {
+        const routes: MockRoute[] = []
+        for (const router of routers) {
+            for (const group of router.routes) {
+                const url = joinPaths(router.path, group.path)
+                for (const block of group.methods) {
+                    routes.push({
+                        method: block.method.toUpperCase(),
+                        path: url,
+                        pattern: createPathPattern(url),
+                        names: (url.match(/:\w+/g) || []).map(name => name.substring(1)),
+                        block
+                    })
+                }
+            }
+        }
+        this.routes = routes
+    }
+
+    /**
+     * Starts the server
+     */
+    public listen(): Promise<void> {
+        const app = new Koa()
+        app.use(ctx => this.respond(ctx))
+        return new Promise((resolve, reject) => {
+            this.server = app.listen(this.port, () => resolve())
+            this.server.on('error', reject)
+        })
+    }
+
+    /**
+     * Stops the server
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.server) return resolve()
+            this.server.close((err?: Error) => err ? reject(err) : resolve())
+            this.server = null
+        })
+    }
+
+    private respond(ctx: Koa.Context) {
+        ctx.set('Access-Control-Allow-Origin', '*')
+        if (ctx.method === 'OPTIONS') {
+            ctx.set('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, PATCH, DELETE')
+            ctx.set('Access-Control-Allow-Headers', ctx.get('Access-Control-Request-Headers') || '*')
+            ctx.status = 204
+            return
+        }
+
+        const method = ctx.method === 'HEAD' ? 'GET' : ctx.method
+        let params: { [name: string]: string } = {}
+        const route = this.routes.find(r => {
+            if (r.method !== method) return false
+            const match = r.pattern.exec(ctx.path)
+            if (!match) return false
+            params = {}
+            r.names.forEach((name, i) => params[name] = decodeURIComponent(match[i + 1]))
+            return true
+        })
+        if (!route) {
+            ctx.status = 404
+            ctx.body = { message: `${ctx.method} ${ctx.path} is not documented` }
+            return
+        }
+
+        const preference = getPreference(ctx)
+        const response = selectResponse(route.block.responses, preference)
+        if (!response) {
+            ctx.status = 404
+            ctx.body = { message: preference.code !== null || preference.example !== null ?
+                `${route.method} ${route.path} has no documented response matching the preference` :
+                `${route.method} ${route.path} has no documented responses` }
+            return
+        }
+
+        ctx.status = response.code
+        for (const header of response.headers) ctx.set(header.name, header.example)
+        const example = response.examples.find(e => e.name === preference.example) || response.examples[0]
+        const body = example ? example.value : response.body
+        if (body === null || body === undefined) return
+        ctx.type = response.type || (typeof body === 'string' ? 'text/plain' : 'application/json')
+        ctx.body = substituteParams(body, params, route.block.params)
+    }
+}
+
+/**
+ * Reads which response a request asks for, from its Prefer header or else
+ * from its __code and __example query parameters
+ */
+function getPreference(ctx: Koa.Context): Preference {
+    const preference: Preference = { code: null, example: null }
+    for (const part of ctx.get('Prefer').split(/[,;]/)) {
+        const [key, value] = part.split('=').map(s => s.trim())
+        if (key === 'code' && value) preference.code = parseInt(value, 10)
+        if (key === 'example' && value) preference.example = value.replace(/^"(.*)"$/, '$1')
+    }
+    const code = ctx.query.__code
+    const example = ctx.query.__example
+    if (preference.code === null && typeof code === 'string') preference.code = parseInt(code, 10)
+    if (preference.example === null && typeof example === 'string') preference.example = example
+    return preference
+}
+
+/**
+ * Chooses the response with the preferred status code and example, falling
+ * back to the first successful response
+ */
+function selectResponse(responses: parser.Documentation.Response[],
+                        preference: Preference): parser.Documentation.Response | null {
+    const candidates = responses.filter(r =>
+        (preference.code === null || r.code === preference.code) &&
+        (preference.example === null || r.examples.some(e => e.name === preference.example)))
+    if (preference.code !== null || preference.example !== null) return candidates[0] || null
+    return responses.find(r => r.code >= 200 && r.code < 300) || responses[0] || null
+}
+
+/**
+ * Sets the properties of an example object which are named after url
+ * parameters to the values of the parameters, and replaces :name in text bodies
+ */
+function substituteParams(body: any, params: { [name: string]: string },
+                          documented: parser.Documentation.Param[]): any {
+    const names = Object.keys(params)
+    if (typeof body === 'string') {
+        return names.reduce((text, name) => text.replace(new RegExp(`:${name}\\b`, 'g'), params[name]), body)
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return body
+    const result = { ...body }
+    for (const name of names.filter(n => result.hasOwnProperty(n))) {
+        const param = documented.find(p => !p.query && p.name === name)
+        const number = Number(params[name])
+        result[name] = param && NUMBER_TYPES.includes(param.type.toLowerCase()) && !isNaN(number) ? number : params[name]
+    }
+    return result
+}
@@ -0,0 +1,144 @@
+import * as tjs from 'typescript-json-schema'
+
+const INDENT = '    '
+
+/**
+ * Converts JSON schemas of named TypeScript types into MSON, the format of
+ * the Data Structures section of an API Blueprint.
+ *
+ * @param structures the schema of each named type, without definitions
+ */
+export function renderDataStructures(structures: Map<string, tjs.Definition>): string {
+    if (!structures.size) return ''
+    let text = '\n# Data Structures\n'
+    for (const name of Array.from(structures.keys()).sort()) {
+        const schema = structures.get(name)!
+        text += `\n## ${name} (${describeType(schema) || 'object'})\n`
+        if (schema.description) text += `\n${schema.description}\n\n`
+        text += renderMembers(schema, '').join('\n') + '\n'
+    }
+    return text
+}
+
+/**
+ * Returns the MSON type of a type name as used in tags (e.g. array[User] for User[])
+ */
+export function formatTypeName(typeName: string): string {
+    return typeName.endsWith('[]') ? `array[${formatTypeName(typeName.slice(0, -2))}]` : typeName
+}
+
+/**
+ * Lists the properties of an object, the members of an enum or the items of
+ * an array
+ */
+function renderMembers(schema: tjs.Definition, indent: string): string[] {
+    const { schema: base } = splitNullable(schema)
+    const lines: string[] = []
+    if (base.enum) {
+        (base.enum as any[]).forEach(value => lines.push(`${indent}+ \`${value}\``))
+    } else if (base.anyOf || base.oneOf) {
+        for (const option of (base.anyOf || base.oneOf)!) {
+            lines.push(`${indent}+ (${describeType(option) || 'object'})`)
+            lines.push(...renderNested(option, indent + INDENT))
+        }
+    } else if (base.properties) {
+        const required = base.required || []
+        for (const name of Object.keys(base.properties)) {
+            lines.push(...renderProperty(name, base.properties[name], required.includes(name), indent))
+        }
+        if (base.additionalProperties && base.additionalProperties !== true) {
+            lines.push(...renderProperty('*key (string)*', base.additionalProperties, false, indent))
+        }
+    } else if (base.items) {
+        const items = Array.isArray(base.items) ? base.items : [base.items]
+        for (const item of items) {
+            lines.push(`${indent}+ (${describeType(item) || 'object'})`)
+            lines.push(...renderNested(item, indent + INDENT))
+        }
+    }
+    return lines
+}
+
+function renderProperty(name: string, schema: tjs.Definition, required: boolean, indent: string): string[] {
+    const { schema: base, nullable } = splitNullable(schema)
+    const attributes: string[] = []
+    const type = describeType(base)
+    if (type) attributes.push(type)
+    if (required) attributes.push('required')
+    if (nullable) attributes.push('nullable')
+    const constant = getConstant(base)
+    if (constant !== undefined) attributes.push('fixed')
+
+    let line = `${indent}+ ${name}`
+    if (constant !== undefined) line += `: ${constant}`
+    if (attributes.length) line += ` (${attributes.join(', ')})`
+    if (schema.description || base.description) line += ` - ${(schema.description || base.description)!.replace(/\n/g, ' ')}`
+    return [line].concat(constant === undefined ? renderNested(base, indent + INDENT) : [])
+}
+
+/**
+ * Lists what is inside a property's type, unless the type is named and so is
+ * described in its own data structure
+ */
+function renderNested(schema: tjs.Definition, indent: string): string[] {
+    if (schema.$ref) return []
+    if (schema.enum) return [`${indent}+ Members`].concat(renderMembers(schema, indent + INDENT))
+    if (schema.items && !Array.isArray(schema.items) && (schema.items.$ref || !schema.items.properties)) return []
+    return renderMembers(schema, indent)
+}
+
+/**
+ * Returns the MSON type of a schema, or null if it has none (e.g. any)
+ */
+function describeType(schema: tjs.Definition): string | null {
+    const { schema: base } = splitNullable(schema)
+    if (base.$ref) return decodeURIComponent(base.$ref.replace(/^.*\//, ''))
+    const constant = getConstant(base)
+    if (constant !== undefined) return typeof constant
+    if (base.enum) {
+        const types = (base.enum as any[]).map(value => typeof value).filter((t, i, all) => all.indexOf(t) === i)
+        return (types.length === 1 && types[0] !== 'object') ? `enum[${types[0]}]` : 'enum'
+    }
+    if (base.anyOf || base.oneOf) return 'enum'
+    const type = Array.isArray(base.type) ? base.type[0] : base.type
+    switch (type) {
+        case 'integer':
+            return 'number'
+        case 'array':
+            const items = base.items
+            if (!items || Array.isArray(items) || (!items.$ref && items.properties)) return 'array'
+            const itemType = describeType(items)
+            return itemType ? `array[${itemType}]` : 'array'
+        case undefined:
+            return base.properties ? 'object' : null
+        default:
+            return type
+    }
+}
+
+/**
+ * Separates null from a union with a single other type (e.g. string | null)
+ */
+function splitNullable(schema: tjs.Definition): { schema: tjs.Definition, nullable: boolean } {
+    const options = schema.anyOf || schema.oneOf
+    if (options) {
+        const others = options.filter(o => o.type !== 'null')
+        if (others.length === 1 && options.length === 2) return { schema: others[0], nullable: true }
+    }
+    if (Array.isArray(schema.type) && schema.type.includes('null')) {
+        const types = schema.type.filter(t => t !== 'null')
+        return { schema: { ...schema, type: types.length === 1 ? types[0] : types }, nullable: true }
+    }
+    return { schema, nullable: false }
+}
+
+/**
+ * Returns the value of a schema which only allows one value (such as a string
+ * literal type)
+ */
+function getConstant(schema: tjs.Definition): any {
+    const constant = (schema as { const?: any }).const
+    if (constant !== undefined) return constant
+    if (schema.enum && schema.enum.length === 1) return schema.enum[0]
+    return undefined
+}
@@ -0,0 +1,283 @@
+import * as yaml from 'js-yaml'
+import stringify from 'json-stable-stringify'
+import * as path from 'path'
+import * as tjs from 'typescript-json-schema'
+
+import { SecurityScheme } from './config'
+import { TextEmitter, formatPath } from './emitter'
+import * as parser from './parser'
+import { sortGroups } from './resources'
+import { joinPaths } from './routers'
+
+const OPENAPI_VERSION = '3.0.0'
+const DEFAULT_VERSION = '1.0.0'
+const DEFAULT_CONTENT_TYPE = 'application/json'
+const JSON_INDENT_LEN = 2
+
+const PARAM_TYPES = ['string', 'number', 'integer', 'boolean']
+
+/**
+ * An emitter for creating OpenAPI 3 documents.
+ *
+ * Unlike API Blueprint, an OpenAPI document is a single object, so routes are
+ * collected as they are emitted and the document is serialized as JSON or YAML
+ * (depending on the extension of the output file) when the emitter is closed.
+ */
+export class OpenAPIEmitter extends TextEmitter {
+    private document: any
+    private schemas: { [name: string]: tjs.Definition } = {}
+
+    /**
+     * Start a new document containing the API metadata.
+     */
+    public begin() {
+        super.begin()
+        const { host, title, description, version } = this.config
+        this.schemas = {}
+        this.document = {
+            openapi: OPENAPI_VERSION,
+            info: { title: title || '', version: version || DEFAULT_VERSION },
+            paths: {},
+            tags: []
+        }
+        if (description) this.document.info.description = description
+        if (host) this.document.servers = [{ url: host }]
+    }
+
+    /**
+     * Add a set of routes to the document, tagged with their @group or
+     * otherwise the title of the router.
+     */
+    public emit(doc: parser.Documentation.Router) {
+        doc.routes.forEach(g => this.emitGroup(g, doc))
+    }
+
+    /**
+     * Add all methods of a single route path to the document.
+     */
+    private emitGroup(doc: parser.Documentation.Group, router: parser.Documentation.Router): void {
+        const url = joinPaths(router.path, formatPath(doc.path))
+        const pathItem = this.document.paths[url] = this.document.paths[url] || {}
+        doc.methods.forEach(r => pathItem[r.method] = this.createOperation(r, router))
+    }
+
+    /**
+     * Add a tag to the document if it is not already there
+     */
+    private addTag(name: string, description?: string): void {
+        let tag = this.document.tags.find((t: any) => t.name === name)
+        if (!tag) this.document.tags.push(tag = { name })
+        if (description && !tag.description) tag.description = description
+    }
+
+    /**
+     * Create the operation object for a single route HTTP method.
+     */
+    private createOperation(doc: parser.Documentation.Block, router: parser.Documentation.Router): any {
+        const tag = doc.group || router.title
+        this.addTag(tag, doc.group ? undefined : router.description)
+        const operation: any = { tags: [tag], summary: doc.title }
+        if (doc.operationId) operation.operationId = doc.operationId
+        if (doc.description) operation.description = doc.description
+        if (doc.deprecated !== null) {
+            operation.deprecated = true
+            // OpenAPI has nowhere else to give the reason
+            if (doc.deprecated) operation.description = [`Deprecated: ${doc.deprecated}`, doc.description].filter(d => d).join('\n\n')
+        }
+        if (doc.since !== null) operation['x-since'] = doc.since
+        const parameters = doc.params.map(p => this.createParameter(p))
+            .concat(doc.headers.map(h => this.createHeaderParameter(h)))
+        if (parameters.length > 0) operation.parameters = parameters
+        // Each requirement is an alternative, so any one of the schemes is enough
+        if (doc.auth.length > 0) operation.security = doc.auth.map(name => ({ [name]: [] }))
+        if (doc.body) operation.requestBody = this.createRequestBody(doc.body)
+        operation.responses = this.createResponses(doc.responses)
+        return operation
+    }
+
+    /**
+     * Create a parameter object, either found in the url path or the query parameters.
+     */
+    private createParameter(param: parser.Documentation.Param): any {
+        const schema: any = {}
+        if (param.members) {
+            schema.type = typeof param.members[0]
+            schema.enum = param.members
+        } else {
+            schema.type = param.type && PARAM_TYPES.includes(param.type.toLowerCase()) ? param.type.toLowerCase() : 'string'
+        }
+        if (param.default !== null) schema.default = parseValue(param.default, schema.type)
+        return {
+            name: param.name,
+            in: param.query ? 'query' : 'path',
+            description: param.description,
+            // Path parameters are always required in OpenAPI
+            required: !param.query || !param.optional,
+            schema,
+            example: parseValue(param.example, schema.type)
+        }
+    }
+
+    private createHeaderParameter(header: parser.Documentation.Header): any {
+        const type = PARAM_TYPES.includes(header.type.toLowerCase()) ? header.type.toLowerCase() : 'string'
+        return {
+            name: header.name,
+            in: 'header',
+            description: header.description,
+            schema: { type },
+            example: parseValue(header.example, type)
+        }
+    }
+
+    private createRequestBody(body: parser.Documentation.RequestBody): any {
+        return {
+            content: {
+                [body.type || DEFAULT_CONTENT_TYPE]: this.createMediaType(body.schema, getExamples(body))
+            }
+        }
+    }
+
+    /**
+     * Create the responses object of an operation. OpenAPI only allows a single
+     * response per status code, so responses sharing a code are merged, keeping
+     * each of their examples.
+     */
+    private createResponses(responses: parser.Documentation.Response[]): any {
+        const result: any = {}
+        const byCode = new Map<number, parser.Documentation.Response[]>()
+        for (const res of responses) {
+            const group = byCode.get(res.code)
+            if (group) group.push(res)
+            else byCode.set(res.code, [res])
+        }
+
+        for (const [code, group] of byCode.entries()) {
+            const response: any = {
+                description: group.map(r => r.when).filter(w => w).join('\n') || ''
+            }
+            for (const header of group.reduce((all, r) => all.concat(r.headers), [] as parser.Documentation.Header[])) {
+                const type = PARAM_TYPES.includes(header.type.toLowerCase()) ? header.type.toLowerCase() : 'string'
+                const headers = response.headers = response.headers || {}
+                headers[header.name] = { description: header.description, schema: { type } }
+            }
+            for (const res of group) {
+                if (!res.type && !res.body && !res.examples.length) continue
+                const content = response.content = response.content || {}
+                const type = res.type || 'text/plain'
+                if (!content[type]) {
+                    content[type] = this.createMediaType(res.schema, getExamples(res))
+                } else {
+                    getExamples(res).forEach(e => addExample(content[type], e, res.when))
+                }
+            }
+            result[code] = response
+        }
+
+        return result
+    }
+
+    private createMediaType(schema: tjs.Definition | null, examples: parser.Documentation.Example[]): any {
+        const media: any = {}
+        if (schema) media.schema = this.convertSchema(schema)
+        examples.forEach(e => addExample(media, e, null))
+        return media
+    }
+
+    /**
+     * Converts a JSON schema generated by typescript-json-schema into an OpenAPI
+     * schema object, moving its definitions to the shared components section.
+     */
+    private convertSchema(schema: tjs.Definition): tjs.Definition {
+        const { $schema, definitions, ...rest } = schema
+        for (const name of Object.keys(definitions || {})) {
+            this.schemas[name] = rewriteRefs(definitions![name])
+        }
+        return rewriteRefs(rest)
+    }
+
+    /**
+     * Serialize the document as YAML or JSON.
+     */
+    public render(): string {
+        const document = { ...this.document }
+        document.tags = sortGroups(this.document.tags, (tag: any) => tag.name, this.config.groupOrder)
+        const components: any = {}
+        if (Object.keys(this.schemas).length > 0) components.schemas = this.schemas
+        const securitySchemes = this.config.securitySchemes
+        if (Object.keys(securitySchemes).length > 0) {
+            components.securitySchemes = {}
+            for (const name of Object.keys(securitySchemes)) {
+                components.securitySchemes[name] = createSecurityScheme(securitySchemes[name])
+            }
+        }
+        if (Object.keys(components).length > 0) document.components = components
+        const ext = path.extname(this.output.output).toLowerCase()
+        return (ext === '.yaml' || ext === '.yml') ?
+            yaml.safeDump(document, { noRefs: true, skipInvalid: true }) :
+            stringify(document, { space: JSON_INDENT_LEN }) + '\n'
+    }
+}
+
+/**
+ * Returns the examples of a response or request body, which are either those
+ * given by @example tags or the single generated example
+ */
+function getExamples(doc: parser.Documentation.Response | parser.Documentation.RequestBody): parser.Documentation.Example[] {
+    if (doc.examples.length) return doc.examples
+    return (doc.body !== null && doc.body !== undefined) ? [{ name: null, value: doc.body, location: doc.location }] : []
+}
+
+/**
+ * Adds an example to a media type object. A single unnamed example is kept
+ * as the example of the media type, and is converted into a map of named
+ * examples once there are more.
+ */
+function addExample(media: any, example: parser.Documentation.Example, summary: string | null): void {
+    if (media.example === undefined && !media.examples && !example.name) {
+        media.example = example.value
+        return
+    }
+    if (!media.examples) {
+        media.examples = {}
+        if (media.example !== undefined) media.examples.example1 = { value: media.example }
+        delete media.example
+    }
+    const name = example.name || `example${Object.keys(media.examples).length + 1}`
+    media.examples[name] = { summary: summary || undefined, value: example.value }
+}
+
+/**
+ * Converts a security scheme from the config into an OpenAPI security scheme
+ */
+function createSecurityScheme(scheme: SecurityScheme): any {
+    const result: any = scheme.type === 'bearer' ?
+        { type: 'http', scheme: 'bearer' } :
+        { type: 'apiKey', in: scheme.type === 'cookie' ? 'cookie' : scheme.in, name: scheme.name }
+    if (scheme.bearerFormat) result.bearerFormat = scheme.bearerFormat
+    if (scheme.description) result.description = scheme.description
+    return result
+}
+
+/**
+ * Converts a value written in a tag to the type of a parameter's schema
+ */
+function parseValue(value: string, type: string): any {
+    if ((type === 'number' || type === 'integer') && !isNaN(Number(value))) return Number(value)
+    if (type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true'
+    return value
+}
+
+/**
+ * Point references to JSON schema definitions at the OpenAPI components section
+ */
+function rewriteRefs(schema: any): any {
+    if (Array.isArray(schema)) return schema.map(rewriteRefs)
+    if (typeof schema !== 'object' || schema === null) return schema
+    const result: any = {}
+    for (const key of Object.keys(schema)) {
+        result[key] = (key === '$ref' && typeof schema[key] === 'string') ?
+            schema[key].replace(/^#\/definitions\//, '#/components/schemas/') :
+            rewriteRefs(schema[key])
+    }
+    return result
+}
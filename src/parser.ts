@@ -1,15 +1,27 @@
 import parse from 'comment-parser'
+import * as fs from 'fs'
+import * as path from 'path'
 import ts from 'typescript'
 import * as tjs from 'typescript-json-schema'
 
-import { Config } from './config'
-import { DocumentationEmitter } from './emitter'
+import { DocumentationCache } from './cache'
+import { Config, Rule } from './config'
 import { NiceError } from './errors'
-import { createSchemaExample } from './examples'
+import { createSchemaExample, validateExample } from './examples'
+import { HandlerInfo, InferredType, analyzeHandler, inferRequestType, inferResponseTypes, matchesInferredType } from './handlers'
 import * as logger from './logger'
+import { getRouterSymbol, isRouter, joinPaths, normalizePath, resolveRouterPaths, resolveStrings } from './routers'
 
-const ROUTER_TYPE = 'Router'
-const ROUTER_METHODS = ['get', 'post', 'put', 'patch', 'delete']
+const ROUTER_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'del', 'all', 'head', 'options']
+// Methods which are registered under another name
+const METHOD_ALIASES: { [method: string]: string } = { del: 'delete' }
+// The methods documented for routes registered with router.all()
+const ALL_METHODS = ['get', 'post', 'put', 'patch', 'delete']
+// The @auth tag of routes which do not require authentication
+const NO_AUTH = 'none'
+// The keywords of a JSON schema holding other schemas, either directly or by name
+export const SCHEMA_KEYWORDS = ['items', 'additionalProperties', 'additionalItems', 'allOf', 'anyOf', 'oneOf', 'not']
+export const SCHEMA_MAP_KEYWORDS = ['properties', 'definitions', 'patternProperties']
 
 export namespace Documentation {
 
@@ -30,6 +42,25 @@ export namespace Documentation {
      */
     description: string | undefined
     routes: Documentation.Group[]
+    /**
+     * Where the router is declared, if it is known
+     */
+    location: Documentation.Location | null
+  }
+
+  /**
+   * A place in the source code, such as the tag a piece of documentation was
+   * parsed from
+   */
+  export interface Location {
+    /**
+     * The path of the source file
+     */
+    file: string
+    /**
+     * The line in the file, starting from 1
+     */
+    line: number
   }
 
   /**
@@ -53,6 +84,10 @@ export namespace Documentation {
      * domain), relative to the base path of the router
      */
     path: string
+    /**
+     * The name the route was registered with (router.get('name', '/path')), if any
+     */
+    name: string | null
     /**
      * The title of the documentation block
      */
@@ -73,6 +108,78 @@ export namespace Documentation {
      * The POST body of an incoming request
      */
     body: Documentation.RequestBody | null
+    /**
+     * The name of the request, given by a @request tag or otherwise the title
+     */
+    requestName: string
+    /**
+     * The identifier of the route in generated code, if it was given one with
+     * an @operationId tag
+     */
+    operationId: string | null
+    /**
+     * Why the route should no longer be used and what to use instead, if it
+     * is deprecated (an empty string if no reason is given), or otherwise null
+     */
+    deprecated: string | null
+    /**
+     * The version of the API the route was added in, given by a @since tag
+     */
+    since: string | null
+    /**
+     * Whether the route is left out of documentation for outside users, given
+     * by an @internal or @private tag of the route or its router
+     */
+    internal: boolean
+    /**
+     * The names given by the @tag tags of the route and its router, which
+     * outputs can be filtered by
+     */
+    tags: string[]
+    /**
+     * The group the route is documented in, given by an @group tag of the
+     * route or its router, or null to document it in the group of its router
+     */
+    group: string | null
+    /**
+     * The name of the resource (the route's path) given by a @resource tag,
+     * if it has one
+     */
+    resource: string | null
+    /**
+     * The headers which the request may be sent with
+     */
+    headers: Documentation.Header[]
+    /**
+     * The names of the security schemes (from the config) which the request
+     * can be authenticated with, any one of which is enough. Empty if the
+     * route does not require authentication.
+     */
+    auth: string[]
+    /**
+     * Where the route is registered
+     */
+    location: Documentation.Location
+  }
+
+  /**
+   * A header of a request (@header) or of a response (@responseHeader)
+   */
+  export interface Header {
+    /**
+     * The name of the header (e.g. Location)
+     */
+    name: string
+    /**
+     * The type of the header's value (e.g. string)
+     */
+    type: string
+    description: string
+    /**
+     * An example value of the header
+     */
+    example: string
+    location: Documentation.Location
   }
 
   /**
@@ -100,6 +207,25 @@ export namespace Documentation {
      * An example value of the paramter
      */
     example: string
+    /**
+     * True if the parameter may be left out ([name] in the tag)
+     */
+    optional: boolean
+    /**
+     * The value used when the parameter is left out ([name=default] in the tag)
+     */
+    default: string | null
+    /**
+     * The values the parameter may take, if its type is an enum or a union of
+     * literal types
+     */
+    members: Array<string | number> | null
+    /**
+     * Whether the parameter is left out of documentation for outside users,
+     * given by an @internal tag naming it
+     */
+    internal: boolean
+    location: Documentation.Location
   }
 
   /**
@@ -126,6 +252,40 @@ export namespace Documentation {
      * The schema of how the server will respond
      */
     schema: tjs.Definition | null
+    /**
+     * The TypeScript type the schema was generated from (e.g. User or User[])
+     */
+    typeName: string | null
+    /**
+     * The file which exports the TypeScript type, so that generated code can
+     * import it, or null if it is not exported from a module
+     */
+    typeFile: string | null
+    /**
+     * The headers which the server responds with
+     */
+    headers: Documentation.Header[]
+    /**
+     * Examples given with @example tags, which are used instead of body
+     */
+    examples: Documentation.Example[]
+    /**
+     * Where the response is documented, or where the handler responds with it
+     * if it was added because of addMissingResponses
+     */
+    location: Documentation.Location
+  }
+
+  /**
+   * An example body given with an @example tag
+   */
+  export interface Example {
+    /**
+     * The name of the example, if it was given one
+     */
+    name: string | null
+    value: any
+    location: Documentation.Location
   }
 
   /**
@@ -144,6 +304,24 @@ export namespace Documentation {
      * The schema of what is supposed to be sent to the server
      */
     schema: tjs.Definition | null
+    /**
+     * The TypeScript type the schema was generated from (e.g. User or User[])
+     */
+    typeName: string | null
+    /**
+     * The file which exports the TypeScript type, so that generated code can
+     * import it, or null if it is not exported from a module
+     */
+    typeFile: string | null
+    /**
+     * Examples given with @example tags, which are used instead of body
+     */
+    examples: Documentation.Example[]
+    /**
+     * Where the body is documented, or where the route is registered if the
+     * body is inferred from the handler
+     */
+    location: Documentation.Location
   }
 
 }
@@ -163,100 +341,271 @@ interface Position {
 }
 
 /**
- * Emits documentation for a given set of source files
+ * Parses documentation for a given set of source files
  *
  * @param files the files to document
  * @param program configuration of the top-level typescript project
- * @param emitter used to write out documentation
+ * @param config the documentation config, used for examples
+ * @param cache the documentation of the files from an earlier run, which is
+ * reused for files which have not changed and updated for those which have
+ * @returns the documentation of every router found in the files
  */
-export function createDocumentation(files: ReadonlyArray<ts.SourceFile>, program: ts.Program, emitter: DocumentationEmitter): void {
+export function createDocumentation(files: ReadonlyArray<ts.SourceFile>, program: ts.Program, config: Config,
+                                    cache?: DocumentationCache): Documentation.Router[] {
   // Only emit routes for files not in the node_modules folder
   const nonLibFiles = files.filter(f => !f.fileName.includes('node_modules'))
-  // The generator is used to create JSON schemas from typescript types
-  const generator = tjs.buildGenerator(program, {
-    ignoreErrors: true
-  } /*, nonLibFiles.map(f => f.fileName) */)
-  if (generator === null) throw new Error('program has errors')
-  nonLibFiles.forEach(f => documentSourceFile(f, program, generator, emitter))
+  const checker = program.getTypeChecker()
+  // The generator is used to create JSON schemas from typescript types. It
+  // takes a while to build, so it is only built once a route is found in a
+  // file which has to be documented.
+  let generator: tjs.JsonSchemaGenerator | null = null
+  const getGenerator = () => {
+    if (generator) return generator
+    generator = tjs.buildGenerator(program, {
+      ignoreErrors: true,
+      // List the properties which are not optional, so that they can be
+      // documented as required and checked in examples
+      required: true,
+      // Keep @deprecated and @internal tags of properties, which are converted
+      // into the deprecated and x-internal keywords by convertAnnotations
+      validationKeywords: ['deprecated', 'internal', 'private']
+    } /*, nonLibFiles.map(f => f.fileName) */)
+    if (generator === null) throw new Error('program has errors')
+    return generator
+  }
+  // Routers may be mounted on each other from any file, so their full paths
+  // are resolved before any of the files are documented
+  const routerPaths = resolveRouterPaths(nonLibFiles, checker)
+  // The tags of each router, parsed when its first route is found, or null
+  // if they have errors
+  const routerTags = new Map<ts.Symbol, RouterTags | null>()
+  const outdated = cache ?
+    cache.findOutdated(nonLibFiles, checker, describeContext(config, routerPaths)) :
+    new Set(nonLibFiles.map(f => f.fileName))
+  const routers: Documentation.Router[] = []
+  for (const file of nonLibFiles) {
+    const cached = cache && !outdated.has(file.fileName) && cache.get(file)
+    if (cached) {
+      // The problems in the file are not reported again, but still count
+      logger.addErrorCount(cached.errors)
+      routers.push(...cached.routers)
+      continue
+    }
+    const errors = logger.getErrorCount()
+    const documented = documentSourceFile(file, program, getGenerator, config, routerPaths, routerTags)
+    if (cache) cache.set(file, checker, documented, getSchemaFiles(documented, getGenerator), logger.getErrorCount() - errors)
+    routers.push(...documented)
+  }
+  return mergeRouters(routers)
 }
 
 /**
- * Determine if a function is of the form Router.(get|post|...)
+ * Merges the documentation of routers whose routes are registered in several
+ * files, which is found separately for each file. Routers are the same if
+ * they are declared in the same place.
  */
-function isRouterFunction(sourceFile: ts.SourceFile, node: ts.CallExpression, checker: ts.TypeChecker): boolean {
-  const expr = node.expression
-  // This expression has 3 children: "router", ".", and "get"
+function mergeRouters(routers: Documentation.Router[]): Documentation.Router[] {
+  const merged: Documentation.Router[] = []
+  const byLocation = new Map<string, Documentation.Router>()
+  for (const router of routers) {
+    const key = router.location && `${router.location.file}:${router.location.line}`
+    const existing = key ? byLocation.get(key) : undefined
+    if (!existing) {
+      merged.push(router)
+      if (key) byLocation.set(key, router)
+      continue
+    }
+    // The documentation of each file may be cached, so it is copied rather than changed
+    const blocks = existing.routes.concat(router.routes).map(group => group.methods).reduce((all, methods) => all.concat(methods), [])
+    const combined = { ...existing, routes: groupByRoute(blocks) }
+    merged[merged.indexOf(existing)] = combined
+    byLocation.set(key!, combined)
+  }
+  return merged
+}
+
+/**
+ * Returns the files declaring the types which the schemas of some routers
+ * were generated from, along with the types they refer to. Types are found
+ * by name, so these files do not have to be imported where the routes are.
+ */
+function getSchemaFiles(routers: Documentation.Router[], getGenerator: () => tjs.JsonSchemaGenerator): string[] {
+  const typeNames = new Set<string>()
+  for (const router of routers) {
+    for (const group of router.routes) {
+      for (const block of group.methods) {
+        for (const content of [block.body, ...block.responses]) {
+          if (!content || !content.schema) continue
+          if (content.typeName) typeNames.add(content.typeName.replace(/(\[\])+$/, ''))
+          Object.keys(content.schema.definitions || {}).forEach(name => typeNames.add(name))
+        }
+      }
+    }
+  }
+  if (!typeNames.size) return []
+  const generator = getGenerator()
+  const files = new Set<string>()
+  for (const name of typeNames) {
+    for (const { symbol } of generator.getSymbols(name)) {
+      (symbol.declarations || []).forEach(d => files.add(d.getSourceFile().fileName))
+    }
+  }
+  return Array.from(files)
+}
+
+/**
+ * Describes what the documentation of every file depends on, so that it can
+ * be documented again when any of it changes
+ */
+function describeContext(config: Config, routerPaths: Map<ts.Symbol, string>): string {
+  const paths = Array.from(routerPaths.entries()).map(([router, path]) => {
+    const declaration = router.valueDeclaration
+    return `${declaration ? declaration.getSourceFile().fileName : ''}#${router.name}=${path}`
+  })
+  return JSON.stringify({ config, paths: paths.sort() })
+}
+
+/**
+ * A call which registers a route on a router
+ */
+interface RouterCall {
+  /**
+   * The HTTP methods that the route is registered for
+   */
+  methods: string[]
+  /**
+   * The name of the route, if it is a named route
+   */
+  name: string | null
+  /**
+   * The paths that the route is registered for
+   */
+  paths: string[]
+}
 
-  // Check that the Router object is an instance of Router
-  const routerName = expr.getChildAt(0)
-  const symbol = checker.getSymbolAtLocation(routerName)
-  if (!symbol) return false
-  const type = checker.getTypeOfSymbolAtLocation(symbol, expr)
-  if (checker.typeToString(type, expr) !== ROUTER_TYPE) return false
+/**
+ * The tags of a router which apply to all of its routes
+ */
+interface RouterTags {
+  /**
+   * The security schemes of routes without @auth tags of their own
+   */
+  auth: string[]
+  internal: boolean
+  tags: string[]
+  group: string | null
+}
+
+/**
+ * Determine if a function is of the form Router.(get|post|...), returning the
+ * methods and paths it registers if so.
+ */
+function parseRouterCall(sourceFile: ts.SourceFile, node: ts.CallExpression, checker: ts.TypeChecker): RouterCall | undefined {
+  const expr = node.expression
+  if (!ts.isPropertyAccessExpression(expr)) return undefined
 
   // Check the method name
-  if (expr.getChildCount() < 3) return false
-  const methodName = expr.getChildAt(2)
-  if (methodName.kind !== ts.SyntaxKind.Identifier) return false
-  if (!ROUTER_METHODS.includes((methodName as ts.Identifier).text)) return false
+  const method = expr.name.text
+  if (!ROUTER_METHODS.includes(method)) return undefined
+
+  // Check that the Router object is an instance of Router. This may also be
+  // another call in a chain (router.get(...).post(...)).
+  if (!isRouter(expr.expression, checker)) return undefined
+  if (node.arguments.length < 1) return undefined
+
+  // Named routes are registered with the name before the path
+  let name: string | null = null
+  let paths = resolveStrings(node.arguments[0], checker)
+  if (paths && paths.length === 1 && node.arguments.length > 1) {
+    const namedPaths = resolveStrings(node.arguments[1], checker)
+    if (namedPaths) {
+      name = paths[0]
+      paths = namedPaths
+    }
+  }
 
-  // Also check that the first argument is a string literal
-  if (node.arguments[0].kind !== ts.SyntaxKind.StringLiteral) {
-    logger.warn(sourceFile, node, 'Skipping router using something other than a string literal for defining the path')
-    return false
+  if (!paths) {
+    logger.warn(sourceFile, node, 'Skipping route using a path which could not be resolved to a constant string')
+    return undefined
   }
 
-  return true
+  const methods = (method === 'all') ? ALL_METHODS : [METHOD_ALIASES[method] || method]
+  return { methods, name, paths }
 }
 
 /**
  * Parses a single file
  * @param sourceFile the file to emit documentation for
  * @param program configuration of the top-level typescript project
- * @param generator translator for converting typescript types to JSON schemas
- * @param emitter used to write out documentation
+ * @param getGenerator returns the translator for converting typescript types to
+ * JSON schemas
+ * @param config the documentation config, used for examples
+ * @param routerPaths the full paths of routers which are prefixed or mounted
+ * @param routerTags the tags of routers which have been parsed
  */
 function documentSourceFile(sourceFile: ts.SourceFile, program: ts.Program,
-                            generator: tjs.JsonSchemaGenerator, emitter: DocumentationEmitter) {
+                            getGenerator: () => tjs.JsonSchemaGenerator, config: Config,
+                            routerPaths: Map<ts.Symbol, string>, routerTags: Map<ts.Symbol, RouterTags | null>): Documentation.Router[] {
 
   const routersToRoutes = new Map<ts.Symbol, Documentation.Block[]>()
   sourceFile.forEachChild(lookForRoutes)
+  const routers: Documentation.Router[] = []
   for (const [router, routes] of routersToRoutes.entries()) {
-    const routerDoc = parseRouterDoc(router, groupByRoute(routes))
-    emitter.emit(routerDoc)
+    routers.push(parseRouterDoc(router, groupByRoute(routes), routerPaths.get(router)))
   }
+  return routers
 
   function lookForRoutes(node: ts.Node) {
+    // Children are visited first so that chained calls are documented in the
+    // order they are written
+    node.forEachChild(lookForRoutes)
     if (node.kind == ts.SyntaxKind.CallExpression) {
       const callexpr = node as ts.CallExpression
-      if (isRouterFunction(sourceFile, callexpr, program.getTypeChecker())) {
-        const route = (() => {
+      const call = parseRouterCall(sourceFile, callexpr, program.getTypeChecker())
+      if (call) {
+        // We support multiple routers used in the same source file just in
+        // case. The code below grabs the typescript symbol representing the
+        // router used, and uses the symbol to group routes by their router.
+        const sym = getRouterSymbol((callexpr.expression as ts.PropertyAccessExpression).expression, program.getTypeChecker())
+        // Routers which are not held in a variable (new Router().get(...))
+        // cannot be told apart, so their routes are not documented
+        if (!sym) {
+          logger.warn(sourceFile, callexpr, 'Skipping route registered on a router which is not held in a variable')
+          return
+        }
+
+        if (!routerTags.has(sym)) {
+          try {
+            routerTags.set(sym, parseRouterTags(sym, config))
+          } catch (e) {
+            if (!(e instanceof NiceError)) throw e
+            // The routes of a router with errors are left out of the documentation
+            routerTags.set(sym, null)
+          }
+        }
+        const tags = routerTags.get(sym)
+        if (!tags) return
+        const router = { path: routerPaths.get(sym) || '', ...tags }
+        const routes = (() => {
           try {
-            return handleKoaRouter(callexpr, sourceFile, generator, emitter)
+            return handleKoaRouter(callexpr, call, router, sourceFile, program.getTypeChecker(), getGenerator(), config)
           } catch (e) {
-            if (e instanceof NiceError) return undefined
+            if (e instanceof NiceError) return []
             throw e
           }
         })()
+        if (!routes.length) return
 
-        // We support multiple routers used in the same source file just in
-        // case. The code below grabs the typescript symbol representing the
-        // router used, and uses the symbol to group routes by their router.
-        const sym = program.getTypeChecker().getSymbolAtLocation((callexpr).expression.getChildAt(0))
-        if (!sym) throw new Error('Expected router variable to resolve to a symbol')
-        if (!route) return
-
-        // Add the route to the appropriate router
+        // Add the routes to the appropriate router
         let routeArray = routersToRoutes.get(sym)
         if (routeArray) {
-          routeArray.push(route)
+          routeArray.push(...routes)
         } else {
-          routeArray = [route]
+          routeArray = routes
           routersToRoutes.set(sym, routeArray)
         }
       }
     }
-    node.forEachChild(lookForRoutes)
   }
 }
 
@@ -269,48 +618,154 @@ function getPosition(sourceFile: ts.SourceFile, nodeOrLine: any): Position {
   return { line, sourceFile }
 }
 
+/**
+ * Returns the location of a line of a comment (such as the line of a tag)
+ *
+ * @param line the line within the comment
+ */
+function getLocation(position: Position, line = 0): Documentation.Location {
+  return { file: position.sourceFile.fileName, line: position.line + line + 1 }
+}
+
 /**
  * Returns parsed documentation of a Router object's symbol by examing its JSDoc comment.
+ *
+ * @param resolvedPath the full path of the router if it is prefixed or
+ * mounted, which takes precedence over its @route tag
  */
-function parseRouterDoc(router: ts.Symbol, routes: Documentation.Group[]): Documentation.Router {
-  const routePaths = router.getJsDocTags().filter(t => t.name)
-  if (routePaths.length > 1) throw new Error('Too many @route tags')
-  const path = (routePaths[0] ? routePaths[0].text : null) || '/'
+function parseRouterDoc(router: ts.Symbol, routes: Documentation.Group[], resolvedPath?: string): Documentation.Router {
+  // Routers with more than one @route tag are reported by parseRouterTags
+  const routePaths = router.getJsDocTags().filter(t => t.name === 'route')
+  const taggedPath = routePaths[0] ? routePaths[0].text : undefined
+  let path = taggedPath || '/'
+  if (resolvedPath !== undefined) {
+    path = normalizePath(resolvedPath)
+    const declaration = router.valueDeclaration
+    if (taggedPath && normalizePath(taggedPath) !== path && declaration) {
+      logger.warn(declaration.getSourceFile(), declaration, `The @route tag ${taggedPath} of router ${router.name} does not match its mounted path ${path}`)
+    }
+  }
   const text = ts.displayPartsToString(router.getDocumentationComment(undefined))
   const [title, description] = splitByFirstNewline(text)
-  return { path, title, description, routes }
+  const declaration = router.valueDeclaration
+  const location = declaration ? getLocation(getPosition(declaration.getSourceFile(), declaration)) : null
+  return { path, title, description, routes, location }
+}
+
+/**
+ * Returns the security schemes given by the @auth tags of a router, which
+ * apply to all of its routes without @auth tags of their own
+ */
+function parseRouterAuth(router: ts.Symbol, config: Config): string[] {
+  const declaration = router.valueDeclaration
+  const schemes: string[] = []
+  for (const tag of router.getJsDocTags().filter(t => t.name === 'auth')) {
+    const scheme = (tag.text || '').trim().split(/\s+/)[0]
+    if (config.securitySchemes.hasOwnProperty(scheme) || scheme === NO_AUTH) schemes.push(scheme)
+    else if (declaration) {
+      reportRule(config, 'unknown-auth', declaration.getSourceFile(), declaration, `Security scheme ${scheme} of router ${router.name} is not in the config`)
+    }
+  }
+  return schemes.filter(s => s !== NO_AUTH)
+}
+
+/**
+ * Parses the tags of a router which apply to all of its routes: its security
+ * schemes, whether it is marked as internal by an @internal or @private tag,
+ * the names given by its @tag tags and the group given by its @group tag.
+ * Routers with more than one @route or @group tag are reported as errors.
+ */
+function parseRouterTags(router: ts.Symbol, config: Config): RouterTags {
+  const tags = router.getJsDocTags()
+  for (const name of ['route', 'group']) {
+    if (tags.filter(t => t.name === name).length < 2) continue
+    const declaration = router.valueDeclaration
+    if (declaration) logger.err(declaration.getSourceFile(), declaration, `Error: Too many @${name} tags for router ${router.name}`)
+    throw new NiceError()
+  }
+  const groups = tags.filter(t => t.name === 'group' && t.text)
+  return {
+    auth: parseRouterAuth(router, config),
+    internal: tags.some(t => t.name === 'internal' || t.name === 'private'),
+    tags: tags.filter(t => t.name === 'tag' && t.text).map(t => t.text!.trim().split(/\s+/)[0]),
+    group: groups.length ? groups[0].text!.trim() : null
+  }
 }
 
 /**
  * Parses a given AST node prepresenting a Koa router function, returning a
- * structure with parsed fields if the route is commented, otherwise undefined.
+ * structure with parsed fields for each method and path it registers if the
+ * route is commented, otherwise an empty array.
+ *
+ * @param router the path the router is mounted at, if it is known, the
+ * security schemes of the router and the tags which apply to its routes
  */
-function handleKoaRouter(node: ts.CallExpression, sourceFile: ts.SourceFile, generator: tjs.JsonSchemaGenerator, emitter: DocumentationEmitter): Documentation.Block|undefined {
-  const method = (node.expression.getChildAt(2) as ts.Identifier).text
-  const path = (node.arguments[0] as ts.StringLiteral).text
-  const comments = ts.getLeadingCommentRanges(sourceFile.getText(), node.getFullStart()) || []
+function handleKoaRouter(node: ts.CallExpression, call: RouterCall,
+                         router: RouterTags & { path: string },
+                         sourceFile: ts.SourceFile,
+                         checker: ts.TypeChecker, generator: tjs.JsonSchemaGenerator, config: Config): Documentation.Block[] {
+  const { methods, name, paths } = call
+  // The comment of a chained call (router.get(...).post(...)) is placed
+  // before the dot rather than before the whole expression, as may be the
+  // comment of the first call when the router is on a line of its own
+  const expr = node.expression as ts.PropertyAccessExpression
+  const dotStart = expr.getChildAt(1).getFullStart()
+  const commentStart = ts.isCallExpression(expr.expression) || ts.getLeadingCommentRanges(sourceFile.text, dotStart) ?
+    dotStart : node.getFullStart()
+  const comments = ts.getLeadingCommentRanges(sourceFile.text, commentStart) || []
   const minLine = Math.min(...comments.map(c => sourceFile.getLineAndCharacterOfPosition(c.pos).line))
   const pos = getPosition(sourceFile, minLine)
   let commentText = ''
   for (const comment of comments) {
-    commentText += sourceFile.getText().substring(comment.pos, comment.end)
+    commentText += sourceFile.text.substring(comment.pos, comment.end)
   }
   const parsed = parse(commentText)
   if (parsed.length < 1) {
-    logger.warn(sourceFile, node, `Ignoring undocumented route ${method.toUpperCase()} ${path}`)
-    return undefined
+    reportRule(config, 'undocumented-route', sourceFile, node, `Ignoring undocumented route ${methods.join('/').toUpperCase()} ${paths.join(', ')}`)
+    return []
   }
 
   const comment = parsed[0]
   const [title, rawDesc] = splitByFirstNewline(comment.description)
+  const requestTags = comment.tags.filter(t => t.tag === 'request')
+  if (requestTags.length > 1) {
+    logger.errLine(pos.sourceFile, pos.line + requestTags[1].line, 'Error: Too many @request tags')
+    throw new NiceError()
+  }
+  const requestName = requestTags.length ? `${requestTags[0].name} ${requestTags[0].description}`.trim() : title
+  const operationId = parseOperationId(pos, comment)
+  const deprecated = parseTagText(pos, comment, 'deprecated')
+  const since = parseTagText(pos, comment, 'since')
   const description = (rawDesc || '').trim()
-  const urlParams = comment.tags.filter(t => t.tag === 'param').map(tag => parseParam(tag, false, emitter.config))
-  const queryParams = comment.tags.filter(t => t.tag === 'query').map(tag => parseParam(tag, true, emitter.config))
+  const urlParams = comment.tags.filter(t => t.tag === 'param').map(tag => parseParam(pos, node, tag, false, config, checker))
+  const queryParams = comment.tags.filter(t => t.tag === 'query').map(tag => parseParam(pos, node, tag, true, config, checker))
   const params = urlParams.concat(queryParams)
-  const responses = comment.tags.filter(t => t.tag == 'response').map(t => parseResponse(pos, generator, t, emitter))
+  const internal = parseInternal(comment, params) || router.internal
+  const tags = router.tags.concat(comment.tags.filter(t => t.tag === 'tag').map(t => t.name))
+    .filter((tag, i, all) => tag && all.indexOf(tag) === i)
+  const group = parseTagText(pos, comment, 'group') || router.group
+  const resource = parseTagText(pos, comment, 'resource')
+  checkParams(pos, node, comment, paths.map(p => joinPaths(router.path, p)), config)
+  const headers = comment.tags.filter(t => t.tag === 'header').map(tag => parseHeader(tag.name, tag.type, tag.description, getLocation(pos, tag.line), config))
+  const authTags = comment.tags.filter(t => t.tag === 'auth')
+  const auth = authTags.length ? parseAuth(pos, authTags, config) : router.auth
+  // Types which are not given in the tags are inferred from the handler
+  const handler = analyzeHandler(node, checker)
+  const responses = comment.tags.filter(t => t.tag == 'response')
+    .map(t => parseResponse(pos, generator, t, config, handler, checker))
+    .reduce((all, res) => all.concat(res), [])
   const bodies = comment.tags.filter(t => t.tag === 'body')
-  if (bodies.length > 1) throw new Error('Too many @body tags')
-  const body = bodies.length ? parseBody(pos, generator, bodies[0], emitter) : null
+  if (bodies.length > 1) {
+    logger.errLine(pos.sourceFile, pos.line + bodies[1].line, 'Error: Too many @body tags')
+    throw new NiceError()
+  }
+  const inferredBody = handler && inferRequestType(handler, checker)
+  const body = bodies.length ?
+    parseBody(pos, generator, bodies[0], config, inferredBody) :
+    inferBody(getPosition(sourceFile, node), generator, config, inferredBody)
+  if (handler) responses.push(...checkStatusCodes(pos, comment, handler, config))
+  comment.tags.filter(t => t.tag === 'responseHeader').forEach(t => addResponseHeader(pos, t, responses, config))
+  comment.tags.filter(t => t.tag === 'example').forEach(t => addExample(pos, t, responses, body, config))
 
   /// interface TsType
   /// string
@@ -322,61 +777,428 @@ function handleKoaRouter(node: ts.CallExpression, sourceFile: ts.SourceFile, gen
 
   /// @response {TsType}
   /// @response {text/html}
-  return { method, path, title, description, params, responses, body }
+  const blocks: Documentation.Block[] = []
+  for (const method of methods) {
+    for (const path of paths) {
+      const location = getLocation(getPosition(sourceFile, node))
+      blocks.push({ method, path, name, title, description, params, responses, body, requestName, operationId, deprecated, since,
+        internal, tags, group, resource, headers, auth, location })
+    }
+  }
+  return blocks
 }
 
 /**
- * Parses a JSDoc @param tag
+ * Parses the @operationId tag of a route, which should be a valid identifier
  */
-function parseParam(tag: CommentParser.Tag, query: boolean, config: Config): Documentation.Param {
-  const { name, type, description } = tag
+function parseOperationId(position: Position, comment: CommentParser.Comment): string | null {
+  const tags = comment.tags.filter(t => t.tag === 'operationId')
+  if (tags.length > 1) {
+    logger.errLine(position.sourceFile, position.line + tags[1].line, 'Error: Too many @operationId tags')
+    throw new NiceError()
+  }
+  if (!tags.length) return null
+  if (!/^[A-Za-z_$][\w$]*$/.test(tags[0].name)) {
+    logger.errLine(position.sourceFile, position.line + tags[0].line, `Error: Operation id ${tags[0].name} should be an identifier`)
+    throw new NiceError()
+  }
+  return tags[0].name
+}
+
+/**
+ * Returns the text of a tag which may only be given once, or null if the
+ * comment does not have the tag
+ */
+function parseTagText(position: Position, comment: CommentParser.Comment, name: string): string | null {
+  const tags = comment.tags.filter(t => t.tag === name)
+  if (tags.length > 1) {
+    logger.errLine(position.sourceFile, position.line + tags[1].line, `Error: Too many @${name} tags`)
+    throw new NiceError()
+  }
+  return tags.length ? `${tags[0].name} ${tags[0].description}`.trim() : null
+}
+
+/**
+ * Parses the @internal (or @private) tags of a route. A tag whose first word
+ * is the name of one of the parameters of the route marks the parameter as
+ * internal. Any other tag marks the whole route, and the rest of it is taken
+ * as the reason (@internal Only used by the admin console).
+ *
+ * @returns whether the route is internal
+ */
+function parseInternal(comment: CommentParser.Comment, params: Documentation.Param[]): boolean {
+  let internal = false
+  for (const tag of comment.tags.filter(t => t.tag === 'internal' || t.tag === 'private')) {
+    const param = tag.name ? params.find(p => p.name === tag.name) : undefined
+    if (param) param.internal = true
+    else internal = true
+  }
+  return internal
+}
+
+/**
+ * Parses a header from a @header tag (@header {type} Name description) or a
+ * @responseHeader tag
+ */
+function parseHeader(name: string, type: string, description: string, location: Documentation.Location,
+                     config: Config): Documentation.Header {
   const examples = config.examples.param
-  const example = examples.hasOwnProperty(name) ? examples[name] : config.defaults.string
-  return { name, type, description, query, example }
+  const example = examples.hasOwnProperty(name) ? String(examples[name]) : config.defaults.string
+  return { name, type: type || 'string', description, example, location }
 }
 
 /**
- * Parses a JSDoc @response tag
+ * Adds the header of a @responseHeader tag (@responseHeader {type} code Name
+ * description) to each response with its status code.
  */
-function parseResponse(position: Position, generator: tjs.JsonSchemaGenerator, tag: CommentParser.Tag, emitter: DocumentationEmitter): Documentation.Response {
-  const { name, type, description } = tag
-  const responseCode = parseInt(name)
-  if (isNaN(responseCode)) {
-    logger.errLine(position.sourceFile, position.line + tag.line, `Error: Response code '${name}' should be a number.`)
+function addResponseHeader(position: Position, tag: CommentParser.Tag, responses: Documentation.Response[], config: Config): void {
+  const code = parseInt(tag.name)
+  const [name, description] = splitBySpace(tag.description)
+  if (isNaN(code) || !name) {
+    logger.errLine(position.sourceFile, position.line + tag.line, 'Error: A response header should be given as @responseHeader {type} code Name description')
     throw new NiceError()
   }
-  let schema: tjs.Definition | null = null
-  let body = null
-  if (type && !type.includes('/')) {
+  const matching = responses.filter(r => r.code === code)
+  if (!matching.length) {
+    logger.warnLine(position.sourceFile, position.line + tag.line, `Header ${name} is for response ${code}, which is not documented`)
+  }
+  const header = parseHeader(name, tag.type, description, getLocation(position, tag.line), config)
+  matching.forEach(r => r.headers.push(header))
+}
+
+/**
+ * Adds the example of an @example tag (@example <code|body> [name] <json|file.json>)
+ * to the response with its status code or to the request body, checking it
+ * against the schema. When several responses share the status code, the
+ * example is added to the first one whose schema it matches.
+ */
+function addExample(position: Position, tag: CommentParser.Tag, responses: Documentation.Response[],
+                    body: Documentation.RequestBody | null, config: Config): void {
+  const line = position.line + tag.line
+  const report = (message: string) => reportRule(config, 'invalid-example', position.sourceFile, line, message)
+  const example = parseExample(position, tag, report)
+  if (!example) return
+
+  let targets: Array<Documentation.Response | Documentation.RequestBody>
+  if (tag.name === 'body') {
+    if (!body) return report('The example is for the request body, but the route has no @body tag')
+    targets = [body]
+  } else {
+    const code = parseInt(tag.name)
+    if (isNaN(code)) return report('An example should be given as @example <code|body> [name] <json|file.json>')
+    targets = responses.filter(r => r.code === code)
+    if (!targets.length) return report(`The example is for response ${code}, which is not documented`)
+  }
+
+  const errors = targets.map(t => t.schema ? validateExample(t.schema, example.value) : null)
+  const matching = errors.indexOf(null)
+  if (matching < 0) report(`The example${example.name ? ' ' + example.name : ''} does not match its schema: ${errors[0]}`)
+  targets[Math.max(matching, 0)].examples.push(example)
+}
+
+/**
+ * Reads the example of an @example tag from the JSON in the tag or from the
+ * JSON file it names, which is relative to the source file.
+ *
+ * @param report reports why the example could not be read
+ */
+function parseExample(position: Position, tag: CommentParser.Tag, report: (message: string) => void): Documentation.Example | null {
+  let name: string | null = null
+  let content = tag.description.trim()
+  // The name is a single word, followed by the example itself
+  const [first, rest] = splitBySpace(content)
+  if (/^[A-Za-z_][\w-]*$/.test(first) && !['true', 'false', 'null'].includes(first) && rest) {
+    name = first
+    content = rest
+  }
+  if (!content) {
+    report('The @example tag has no example')
+    return null
+  }
+
+  let text = content
+  if (/^\S+\.json$/.test(content)) {
+    const file = path.resolve(path.dirname(position.sourceFile.fileName), content)
     try {
-      schema = generator.getSchemaForSymbol(type)
+      text = fs.readFileSync(file).toString()
     } catch (e) {
-      logger.errLine(position.sourceFile, position.line + tag.line, `Error: In generating schema for type ${type}, ${e.message}.`)
-      throw new NiceError()
+      report(`Could not read example file ${content}: ${e.message}`)
+      return null
     }
-    try {
-      body = createSchemaExample(schema!, emitter.config)
-    } catch (e) {
-      logger.errLine(position.sourceFile, position.line + tag.line, `Error: ${e.message}. Schema: ${JSON.stringify(schema, null, 2)}`)
-      throw new NiceError()
+  }
+  try {
+    return { name, value: JSON.parse(text), location: getLocation(position, tag.line) }
+  } catch (e) {
+    report(`Could not parse the example as JSON: ${e.message}`)
+    return null
+  }
+}
+
+/**
+ * Returns the security schemes named by the @auth tags of a route. A route
+ * with `@auth none` does not require authentication, even if its router does.
+ */
+function parseAuth(position: Position, tags: CommentParser.Tag[], config: Config): string[] {
+  const schemes: string[] = []
+  for (const tag of tags) {
+    if (tag.name === NO_AUTH) continue
+    if (config.securitySchemes.hasOwnProperty(tag.name)) schemes.push(tag.name)
+    else reportRule(config, 'unknown-auth', position.sourceFile, position.line + tag.line, `Security scheme ${tag.name} is not in the config`)
+  }
+  return schemes
+}
+
+/**
+ * Checks that every parameter in the paths of a route has a @param tag, and
+ * that every @param tag is in the paths.
+ */
+function checkParams(position: Position, node: ts.Node, comment: CommentParser.Comment, paths: string[], config: Config): void {
+  const tags = comment.tags.filter(t => t.tag === 'param')
+  const pathParams = paths.map(getPathParams)
+  paths.forEach((path, i) => {
+    for (const param of pathParams[i]) {
+      if (tags.some(t => t.name === param)) continue
+      reportRule(config, 'missing-param', position.sourceFile, node, `Parameter :${param} of ${path} has no @param tag`)
+    }
+  })
+  for (const tag of tags) {
+    if (pathParams.some(params => params.includes(tag.name))) continue
+    reportRule(config, 'unknown-param', position.sourceFile, position.line + tag.line, `Parameter ${tag.name} is not in the path ${paths.join(', ')}`)
+  }
+}
+
+/**
+ * Returns the names of the parameters in a koa style path (e.g. /users/:id)
+ */
+function getPathParams(path: string): string[] {
+  const params: string[] = []
+  const regex = /:(\w+)/g
+  let match
+  while ((match = regex.exec(path))) params.push(match[1])
+  return params
+}
+
+/**
+ * Compares the status codes which a handler responds with to the documented
+ * responses, warning about codes which are not documented and documented codes
+ * which are never sent. Handlers in which no status codes can be found are not
+ * checked.
+ *
+ * @returns stub responses for the undocumented codes, if the config asks for them
+ */
+function checkStatusCodes(position: Position, comment: CommentParser.Comment, handler: HandlerInfo,
+                          config: Config): Documentation.Response[] {
+  if (!handler.statuses.size) return []
+  const tags = comment.tags.filter(t => t.tag === 'response' && !isNaN(parseInt(t.name)))
+  const documented = tags.map(t => parseInt(t.name))
+
+  for (const tag of tags) {
+    const code = parseInt(tag.name)
+    if (!handler.statuses.has(code)) {
+      reportRule(config, 'unused-response', position.sourceFile, position.line + tag.line, `Response ${code} is documented, but the handler never responds with it`)
     }
   }
 
+  const stubs: Documentation.Response[] = []
+  for (const [code, node] of handler.statuses.entries()) {
+    if (documented.includes(code)) continue
+    reportRule(config, 'undocumented-status', node.getSourceFile(), node, `Response ${code} is not documented with a @response tag`)
+    if (!config.addMissingResponses) continue
+    const location = getLocation(getPosition(node.getSourceFile(), node))
+    stubs.push({ code, when: null, type: null, body: null, schema: null, typeName: null, typeFile: null, headers: [], examples: [], location })
+  }
+  return stubs
+}
+
+/**
+ * Parses a JSDoc @param tag
+ */
+function parseParam(position: Position, node: ts.Node, tag: CommentParser.Tag, query: boolean, config: Config,
+                    checker: ts.TypeChecker): Documentation.Param {
+  const { name, type, description, optional } = tag
+  const members = getLiteralMembers(node, type, checker)
+  const defaultValue = (tag.default !== undefined) ? tag.default : null
+  const examples = config.examples.param
+  let example = examples.hasOwnProperty(name) ? String(examples[name]) : (defaultValue || config.defaults.string)
+  // The example should be one of the allowed values
+  if (members && !members.map(String).includes(example)) example = String(members[0])
+  const location = getLocation(position, tag.line)
+  return { name, type, description, query, example, optional: !!optional, default: defaultValue, members, internal: false, location }
+}
+
+/**
+ * Finds the values of a type named in a tag, if it is an enum or a union of
+ * string or number literal types, by looking the name up where the route is
+ * registered.
+ */
+function getLiteralMembers(node: ts.Node, typeName: string, checker: ts.TypeChecker): Array<string | number> | null {
+  if (!typeName) return null
+  let symbol = checker.getSymbolsInScope(node, ts.SymbolFlags.Type | ts.SymbolFlags.Alias).find(s => s.name === typeName)
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+  if (!symbol || !(symbol.flags & (ts.SymbolFlags.Enum | ts.SymbolFlags.TypeAlias))) return null
+
+  const type = checker.getDeclaredTypeOfSymbol(symbol)
+  const types = type.isUnion() ? type.types : [type]
+  const members: Array<string | number> = []
+  for (const t of types) {
+    if (!t.isLiteral() || typeof t.value === 'object') return null
+    members.push(t.value)
+  }
+  return members.length ? members : null
+}
+
+/**
+ * Parses a JSDoc @response tag. If the tag does not give a type, the types the
+ * handler responds with for the status code are used, giving a response for
+ * each of them.
+ */
+function parseResponse(position: Position, generator: tjs.JsonSchemaGenerator, tag: CommentParser.Tag, config: Config,
+                       handler: HandlerInfo | undefined, checker: ts.TypeChecker): Documentation.Response[] {
+  const { name, type, description } = tag
+  const responseCode = parseInt(name)
+  if (isNaN(responseCode)) {
+    reportRule(config, 'missing-status', position.sourceFile, position.line + tag.line, `Response code '${name}' should be a number`)
+    // Routes with errors are left out of the documentation
+    if (config.rules['missing-status'] === 'error') throw new NiceError()
+    return []
+  }
+
+  const inferred = handler ? inferResponseTypes(handler, responseCode, checker) : []
+  if (type && !matchesInferredType(type, inferred)) {
+    reportRule(config, 'type-mismatch', position.sourceFile, position.line + tag.line,
+      `Response ${responseCode} is documented as ${type}, but the handler responds with ${describeInferred(inferred)}`)
+  }
+
   // Add back leading whitespace to the description
   let adjustedDescription = description
   const whitespace = tag.source.match(new RegExp(responseCode + '(\\s*)'))
   if (whitespace && whitespace[1].includes('\n')) {
     adjustedDescription = '\n' + adjustedDescription
   }
-
   const splitDescription = splitByFirstNewline(adjustedDescription)
-  return {
-    code: responseCode,
-    when: splitDescription[0] || null,
-    type: schema ? 'application/json' : (type || null),
-    body: splitDescription[1] || body,
-    schema: schema
+
+  const types: Array<InferredType | null> = type ?
+    [{ contentType: type, typeName: type.includes('/') ? null : type }] :
+    inferred
+  if (!types.length) types.push(null)
+
+  return types.map(t => {
+    let schema: tjs.Definition | null = null
+    let body = null
+    if (t && t.typeName) {
+      ({ schema, body } = generateSchema(position, generator, t.typeName, tag.line, config))
+    }
+    return {
+      code: responseCode,
+      when: splitDescription[0] || null,
+      type: schema ? 'application/json' : (t ? t.contentType : null),
+      body: splitDescription[1] || body,
+      schema: schema,
+      typeName: schema ? t!.typeName : null,
+      typeFile: schema ? getTypeFile(generator, t!.typeName!) : null,
+      headers: [],
+      examples: [],
+      location: getLocation(position, tag.line)
+    }
+  })
+}
+
+/**
+ * Generates the schema of a TypeScript type named in a tag, along with an
+ * example value of the type. If the type cannot be resolved and the
+ * unresolved-type rule is not an error, the schema and example are null.
+ *
+ * @param line the line of the tag within the comment, for reporting errors
+ */
+function generateSchema(position: Position, generator: tjs.JsonSchemaGenerator, typeName: string, line: number,
+                        config: Config): { schema: tjs.Definition | null, body: any } {
+  let schema: tjs.Definition
+  let body
+  try {
+    schema = convertAnnotations(getSchemaForType(generator, typeName))
+  } catch (e) {
+    reportRule(config, 'unresolved-type', position.sourceFile, position.line + line, `In generating schema for type ${typeName}, ${e.message}`)
+    if (config.rules['unresolved-type'] === 'error') throw new NiceError()
+    return { schema: null, body: null }
+  }
+  try {
+    body = createSchemaExample(schema, config)
+  } catch (e) {
+    logger.errLine(position.sourceFile, position.line + line, `Error: ${e.message}. Schema: ${JSON.stringify(schema, null, 2)}`)
+    throw new NiceError()
   }
+  return { schema, body }
+}
+
+/**
+ * Generates the schema of a named type, or an array of a named type (e.g. User[])
+ */
+function getSchemaForType(generator: tjs.JsonSchemaGenerator, typeName: string): tjs.Definition {
+  if (!typeName.endsWith('[]')) return generator.getSchemaForSymbol(typeName)
+  const { $schema, definitions, ...items } = getSchemaForType(generator, typeName.slice(0, -2))
+  const schema: tjs.Definition = { type: 'array', items }
+  if ($schema) schema.$schema = $schema
+  if (definitions) schema.definitions = definitions
+  return schema
+}
+
+/**
+ * Finds the module which exports a named type (or the type of the items of an
+ * array type), returning null if the type is not exported or the name is
+ * ambiguous
+ */
+function getTypeFile(generator: tjs.JsonSchemaGenerator, typeName: string): string | null {
+  const symbols = generator.getSymbols(typeName.replace(/(\[\])+$/, ''))
+  if (symbols.length !== 1) return null
+  const declaration = (symbols[0].symbol.declarations || [])[0]
+  if (!declaration || !(ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Export)) return null
+  const file = declaration.getSourceFile()
+  return ts.isExternalModule(file) ? file.fileName : null
+}
+
+/**
+ * Converts the @deprecated tags kept by the generator into the deprecated
+ * keyword, adding the reason given in the tag to the description, and the
+ * @internal and @private tags into the x-internal keyword
+ */
+function convertAnnotations(schema: tjs.Definition): tjs.Definition {
+  const result: any = { ...schema }
+  for (const key of SCHEMA_MAP_KEYWORDS) {
+    if (!result[key]) continue
+    const map: { [name: string]: tjs.Definition } = {}
+    for (const name of Object.keys(result[key])) map[name] = convertAnnotations(result[key][name])
+    result[key] = map
+  }
+  for (const key of SCHEMA_KEYWORDS) {
+    const value = result[key]
+    if (Array.isArray(value)) result[key] = value.map(convertAnnotations)
+    else if (typeof value === 'object' && value !== null) result[key] = convertAnnotations(value)
+  }
+  if (result.internal !== undefined || result.private !== undefined) {
+    delete result.internal
+    delete result.private
+    result['x-internal'] = true
+  }
+  if (result.deprecated !== undefined && result.deprecated !== true) {
+    const reason = String(result.deprecated)
+    result.deprecated = true
+    const note = reason ? `Deprecated: ${reason}` : 'Deprecated.'
+    result.description = note + (result.description ? `\n\n${result.description}` : '')
+  }
+  return result
+}
+
+function reportRule(config: Config, rule: Rule, sourceFile: ts.SourceFile, location: ts.Node | number, message: string): void {
+  logger.reportRule(rule, config.rules[rule], sourceFile, location, message)
+}
+
+function describeInferred(inferred: InferredType[]): string {
+  return inferred.map(t => t.typeName || t.contentType).join(' or ')
+}
+
+function splitBySpace(str: string): [string, string] {
+  const match = str.trim().match(/^(\S*)\s*([\s\S]*)$/)!
+  return [match[1], match[2]]
 }
 
 function splitByFirstNewline(str: string): [string, string|undefined] {
@@ -392,8 +1214,10 @@ function splitByFirstNewline(str: string): [string, string|undefined] {
  * Parses the @body tag
  *
  * @param tag the CommentParser Tag representing the @body tag
+ * @param inferred the type of the request body in the handler, if known
  */
-function parseBody(position: Position, generator: tjs.JsonSchemaGenerator, tag: CommentParser.Tag, emitter: DocumentationEmitter): Documentation.RequestBody {
+function parseBody(position: Position, generator: tjs.JsonSchemaGenerator, tag: CommentParser.Tag, config: Config,
+                   inferred: InferredType | undefined): Documentation.RequestBody {
   // tag = { tag: 'body',
   // type: 'NeverDoWork',
   // name: '{application/json}',
@@ -420,27 +1244,46 @@ function parseBody(position: Position, generator: tjs.JsonSchemaGenerator, tag:
     else bodyTypescriptType = tagContent
   }
 
+  if (inferred && bodyTypescriptType && !matchesInferredType(bodyTypescriptType, [inferred])) {
+    reportRule(config, 'type-mismatch', position.sourceFile, position.line + tag.line,
+      `The body is documented as ${bodyTypescriptType}, but the handler expects ${describeInferred([inferred])}`)
+  }
+  if (!bodyTypescriptType && inferred && inferred.typeName && !(bodyContentType && bodyContentType.startsWith('text/'))) {
+    bodyTypescriptType = inferred.typeName
+  }
+
   let schema = null
   let body = null
   if (bodyTypescriptType) {
-    try {
-      schema = generator.getSchemaForSymbol(bodyTypescriptType)
-    } catch (e) {
-      logger.errLine(position.sourceFile, position.line + tag.line, `Error: In generating schema for type ${bodyTypescriptType}, ${e.message}.`)
-      throw new NiceError()
-    }
-    try {
-      body = createSchemaExample(schema!, emitter.config)
-    } catch (e) {
-      logger.errLine(position.sourceFile, position.line + tag.line, `Error: ${e.message}. Schema: ${JSON.stringify(schema, null, 2)}`)
-      throw new NiceError()
-    }
+    ({ schema, body } = generateSchema(position, generator, bodyTypescriptType, tag.line, config))
   }
 
   return {
     type: bodyContentType,
     body: tag.description || body,
-    schema
+    schema,
+    typeName: schema ? bodyTypescriptType : null,
+    typeFile: schema ? getTypeFile(generator, bodyTypescriptType!) : null,
+    examples: [],
+    location: getLocation(position, tag.line)
+  }
+}
+
+/**
+ * Documents the request body from the handler's type when there is no @body tag
+ */
+function inferBody(position: Position, generator: tjs.JsonSchemaGenerator, config: Config,
+                   inferred: InferredType | undefined): Documentation.RequestBody | null {
+  if (!inferred || !inferred.typeName) return null
+  const { schema, body } = generateSchema(position, generator, inferred.typeName, 0, config)
+  return {
+    type: inferred.contentType,
+    body,
+    schema,
+    typeName: schema ? inferred.typeName : null,
+    typeFile: schema ? getTypeFile(generator, inferred.typeName) : null,
+    examples: [],
+    location: getLocation(position)
   }
 }
 
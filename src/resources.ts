@@ -0,0 +1,92 @@
+import * as parser from './parser'
+import { joinPaths } from './routers'
+
+/**
+ * A section of the documentation, holding the routes of a router or the
+ * routes given the same @group tag
+ */
+export interface ResourceGroup {
+    name: string
+    /**
+     * The description of the router the group is named after, if any
+     */
+    description: string
+    resources: Resource[]
+}
+
+/**
+ * The routes of a group with the same full path
+ */
+export interface Resource {
+    /**
+     * The name given by a @resource tag of one of the routes, or otherwise
+     * one derived from the path
+     */
+    name: string
+    /**
+     * The full path of the routes (e.g. /users/:id)
+     */
+    path: string
+    routes: parser.Documentation.Block[]
+}
+
+/**
+ * Arranges the routes of every router into groups of resources. Routes are
+ * placed in the group of their @group tag, or otherwise the group named after
+ * their router. The groups named in the order are placed first, and the rest
+ * follow in the order they are found.
+ */
+export function groupResources(routers: parser.Documentation.Router[], order: string[]): ResourceGroup[] {
+    const groups = new Map<string, ResourceGroup>()
+    const getGroup = (name: string) => {
+        if (!groups.has(name)) groups.set(name, { name, description: '', resources: [] })
+        return groups.get(name)!
+    }
+    for (const router of routers) {
+        const routerGroup = getGroup(router.title)
+        if (!routerGroup.description && router.description) routerGroup.description = router.description
+        for (const route of router.routes) {
+            const fullPath = joinPaths(router.path, route.path)
+            for (const block of route.methods) {
+                const group = getGroup(block.group || router.title)
+                let resource = group.resources.find(r => r.path === fullPath)
+                if (!resource) {
+                    resource = { name: '', path: fullPath, routes: [] }
+                    group.resources.push(resource)
+                }
+                resource.routes.push(block)
+            }
+        }
+    }
+    for (const group of groups.values()) {
+        for (const resource of group.resources) {
+            const tagged = resource.routes.find(r => r.resource !== null)
+            resource.name = tagged ? tagged.resource! : getResourceName(resource.path)
+        }
+    }
+    return sortGroups(Array.from(groups.values()).filter(g => g.resources.length), g => g.name, order)
+}
+
+/**
+ * Sorts groups, or anything named after them, so that those named in the
+ * order come first and the rest stay in the order they were found
+ */
+export function sortGroups<T>(items: T[], getName: (item: T) => string, order: string[]): T[] {
+    const rank = (item: T) => order.includes(getName(item)) ? order.indexOf(getName(item)) : order.length
+    // Array.prototype.sort is not stable in every version of node
+    return items
+        .map((item, i) => ({ item, i }))
+        .sort((a, b) => rank(a.item) - rank(b.item) || a.i - b.i)
+        .map(({ item }) => item)
+}
+
+/**
+ * Derives the name of a resource from its path, with each part of the path in
+ * title case (e.g. /user-posts/:id becomes User Posts by Id)
+ */
+export function getResourceName(resourcePath: string): string {
+    const titleCase = (text: string) => text.split(/[-_.]+/).filter(w => w).map(w => w[0].toUpperCase() + w.slice(1)).join(' ')
+    const parts = resourcePath.split('/').filter(p => p)
+        .map(p => p.startsWith(':') ? `by ${titleCase(p.slice(1))}` : titleCase(p))
+    return parts.length ? parts.join(' ') : 'Root'
+}
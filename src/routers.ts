@@ -0,0 +1,253 @@
+import ts from 'typescript'
+
+import * as logger from './logger'
+
+const ROUTER_TYPE = 'Router'
+const MOUNT_METHODS = ['routes', 'middleware']
+
+/**
+ * Where a router is mounted on another router with router.use()
+ */
+interface Mount {
+  /**
+   * The router the router is mounted on
+   */
+  parent: ts.Symbol
+  /**
+   * The path given to router.use(), or an empty string if none was given
+   */
+  path: string
+  /**
+   * The call to router.use(), for reporting
+   */
+  node: ts.CallExpression
+}
+
+/**
+ * What is known about how a router is configured
+ */
+interface RouterInfo {
+  /**
+   * The prefix given in the router's options or by router.prefix()
+   */
+  prefix: string
+  mounts: Mount[]
+}
+
+/**
+ * Determine whether a node is an instance of Router, from either koa-router or
+ * @koa/router (whose Router type is generic)
+ */
+export function isRouter(node: ts.Node, checker: ts.TypeChecker): boolean {
+  const type = checker.getTypeAtLocation(node)
+  const symbol = type.getSymbol()
+  return !!symbol && symbol.name === ROUTER_TYPE
+}
+
+/**
+ * Returns the symbol of the router a node refers to, following imports so
+ * that the same router is identified by the same symbol in every file.
+ * Chained calls (router.get(...).post(...)) are followed back to the router
+ * they were made on.
+ */
+export function getRouterSymbol(node: ts.Node, checker: ts.TypeChecker): ts.Symbol | undefined {
+  while (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+    node = node.expression.expression
+  }
+  if (ts.isPropertyAccessExpression(node)) node = node.name
+  const symbol = checker.getSymbolAtLocation(node)
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) return checker.getAliasedSymbol(symbol)
+  return symbol
+}
+
+/**
+ * Evaluates an expression used as a route path, which may be a string, an
+ * array of strings, a template literal, a concatenation or a reference to a
+ * constant holding any of these.
+ *
+ * @returns the possible values of the expression, or undefined if it cannot
+ * be determined without running the code
+ */
+export function resolveStrings(node: ts.Expression, checker: ts.TypeChecker): string[] | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return [node.text]
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) return resolveStrings(node.expression, checker)
+
+  if (ts.isArrayLiteralExpression(node)) {
+    const values: string[] = []
+    for (const element of node.elements) {
+      const resolved = resolveStrings(element, checker)
+      if (!resolved) return undefined
+      values.push(...resolved)
+    }
+    return values
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    let value = node.head.text
+    for (const span of node.templateSpans) {
+      const resolved = resolveString(span.expression, checker)
+      if (resolved === undefined) return undefined
+      value += resolved + span.literal.text
+    }
+    return [value]
+  }
+
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    const left = resolveString(node.left, checker)
+    const right = resolveString(node.right, checker)
+    return (left === undefined || right === undefined) ? undefined : [left + right]
+  }
+
+  if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+    // Constants declared as strings have literal types
+    const type = checker.getTypeAtLocation(node)
+    if (type.isStringLiteral()) return [type.value]
+
+    // Otherwise look at what the constant was initialized with
+    let symbol = checker.getSymbolAtLocation(ts.isIdentifier(node) ? node : node.name)
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+    const declaration = symbol && symbol.valueDeclaration
+    if (!declaration) return undefined
+    if (ts.isVariableDeclaration(declaration) && declaration.initializer &&
+        ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) {
+      return resolveStrings(declaration.initializer, checker)
+    }
+    if (ts.isPropertyAssignment(declaration)) return resolveStrings(declaration.initializer, checker)
+  }
+
+  return undefined
+}
+
+/**
+ * Evaluates an expression which should have a single string value
+ */
+function resolveString(node: ts.Expression, checker: ts.TypeChecker): string | undefined {
+  const resolved = resolveStrings(node, checker)
+  return (resolved && resolved.length === 1) ? resolved[0] : undefined
+}
+
+/**
+ * Computes the full path of every router which is given a prefix or mounted
+ * on another router, by following `new Router({ prefix })`, `router.prefix()`
+ * and `parent.use(path, router.routes())` across the given files.
+ *
+ * Routers which are mounted more than once are documented under the first
+ * mount that is found.
+ *
+ * @returns a map from router symbols to their full paths
+ */
+export function resolveRouterPaths(files: ReadonlyArray<ts.SourceFile>, checker: ts.TypeChecker): Map<ts.Symbol, string> {
+  const routers = new Map<ts.Symbol, RouterInfo>()
+  files.forEach(f => f.forEachChild(visit))
+
+  const paths = new Map<ts.Symbol, string>()
+  for (const router of routers.keys()) paths.set(router, fullPath(router, []))
+  return paths
+
+  function getInfo(router: ts.Symbol): RouterInfo {
+    let info = routers.get(router)
+    if (!info) {
+      info = { prefix: '', mounts: [] }
+      routers.set(router, info)
+    }
+    return info
+  }
+
+  function fullPath(router: ts.Symbol, visiting: ts.Symbol[]): string {
+    const info = routers.get(router)
+    if (!info) return ''
+    if (visiting.includes(router)) {
+      logger.warn(info.mounts[0].node.getSourceFile(), info.mounts[0].node, `Router ${router.name} is mounted on itself`)
+      return info.prefix
+    }
+    const mount = info.mounts[0]
+    const base = mount ? fullPath(mount.parent, visiting.concat(router)) + mount.path : ''
+    return joinPaths(base, info.prefix)
+  }
+
+  function visit(node: ts.Node) {
+    if (ts.isVariableDeclaration(node) && node.initializer && ts.isNewExpression(node.initializer)) {
+      visitDeclaration(node, node.initializer)
+    } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const receiver = node.expression.expression
+      const method = node.expression.name.text
+      if (method === 'use' && isRouter(receiver, checker)) visitUse(node, receiver)
+      if (method === 'prefix' && isRouter(receiver, checker)) visitPrefix(node, receiver)
+    }
+    node.forEachChild(visit)
+  }
+
+  // const router = new Router({ prefix: '/path' })
+  function visitDeclaration(node: ts.VariableDeclaration, init: ts.NewExpression) {
+    if (!isRouter(init, checker) || !init.arguments || !init.arguments.length) return
+    const options = init.arguments[0]
+    if (!ts.isObjectLiteralExpression(options)) return
+    for (const prop of options.properties) {
+      if (!ts.isPropertyAssignment(prop) || !prop.name || prop.name.getText() !== 'prefix') continue
+      const router = getRouterSymbol(node.name, checker)
+      const prefix = resolveString(prop.initializer, checker)
+      if (router && prefix !== undefined) getInfo(router).prefix = prefix
+    }
+  }
+
+  // router.prefix('/path')
+  function visitPrefix(node: ts.CallExpression, receiver: ts.Expression) {
+    const router = getRouterSymbol(receiver, checker)
+    const prefix = node.arguments.length ? resolveString(node.arguments[0], checker) : undefined
+    if (router && prefix !== undefined) getInfo(router).prefix = prefix
+  }
+
+  // parent.use('/path', router.routes())
+  function visitUse(node: ts.CallExpression, receiver: ts.Expression) {
+    const parent = getRouterSymbol(receiver, checker)
+    if (!parent) return
+    const path = (node.arguments.length && resolveString(node.arguments[0], checker)) || ''
+    for (const arg of node.arguments) {
+      if (!ts.isCallExpression(arg) || !ts.isPropertyAccessExpression(arg.expression)) continue
+      if (!MOUNT_METHODS.includes(arg.expression.name.text)) continue
+      if (!isRouter(arg.expression.expression, checker)) continue
+      const router = getRouterSymbol(arg.expression.expression, checker)
+      if (!router) continue
+      const info = getInfo(router)
+      if (info.mounts.length > 0) {
+        logger.warn(node.getSourceFile(), node, `Router ${router.name} is mounted more than once, so it will only be documented under its first mount`)
+      }
+      info.mounts.push({ parent, path, node })
+    }
+  }
+}
+
+/**
+ * Joins two url paths, without doubling or dropping the slash between them
+ */
+export function joinPaths(base: string, path: string): string {
+  if (!path) return base
+  if (!base) return path
+  return base.replace(/\/+$/, '') + '/' + path.replace(/^\/+/, '')
+}
+
+/**
+ * Normalizes a url path for comparison
+ */
+export function normalizePath(path: string): string {
+  return '/' + path.replace(/^\/+|\/+$/g, '')
+}
+
+/**
+ * Creates the pattern matching the urls of a koa style path (e.g.
+ * /users/:id), with a group capturing each parameter. A trailing slash is
+ * optional.
+ */
+export function createPathPattern(path: string): RegExp {
+  const pattern = path.replace(/\/$/, '').split(/(:\w+)/)
+    .map(part => part.startsWith(':') ? '([^/]+)' : escapeRegExp(part))
+    .join('')
+  return new RegExp(`^${pattern}/?$`)
+}
+
+/**
+ * Escapes the characters of text which have a meaning in regular expressions
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
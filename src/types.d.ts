@@ -13,6 +13,7 @@ declare namespace CommentParser {
         tag: string;
         name: string;
         optional: boolean;
+        default?: string;
         type: string;
         description: string;
         line: number;
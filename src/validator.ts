@@ -0,0 +1,195 @@
+import stringify from 'json-stable-stringify'
+import * as path from 'path'
+import * as tjs from 'typescript-json-schema'
+
+import { TextEmitter } from './emitter'
+import * as parser from './parser'
+import { createPathPattern, joinPaths } from './routers'
+
+const JSON_INDENT_LEN = 2
+const PARAM_TYPES = ['string', 'number', 'integer', 'boolean']
+
+/**
+ * The schemas a route's requests and responses are checked against
+ */
+interface RouteContract {
+    params: tjs.Definition
+    query: tjs.Definition
+    body: tjs.Definition | null
+    /**
+     * The schema of the responses with each status code. Status codes with a
+     * response which has no schema (e.g. text) are left out.
+     */
+    responses: { [code: string]: tjs.Definition }
+}
+
+/**
+ * An emitter for generating Koa middleware which validates requests against
+ * the documentation.
+ *
+ * The generated module exports a table of the schemas of each route, keyed by
+ * method and full path (e.g. `GET /users/:id`), and a `validate` function
+ * creating middleware which checks the params, query and body of requests
+ * against the table before they reach the router. The module is written as
+ * TypeScript if the output ends in .ts, and as a CommonJS module otherwise.
+ * It requires ajv at runtime.
+ */
+export class ValidatorEmitter extends TextEmitter {
+    private contracts: { [route: string]: RouteContract } = {}
+    // The patterns matching the urls of each route
+    private patterns: { [route: string]: string } = {}
+
+    public begin() {
+        super.begin()
+        this.contracts = {}
+        this.patterns = {}
+    }
+
+    public emit(doc: parser.Documentation.Router) {
+        for (const group of doc.routes) {
+            const url = joinPaths(doc.path, group.path)
+            for (const block of group.methods) {
+                const key = `${block.method.toUpperCase()} ${url}`
+                this.contracts[key] = createContract(block)
+                this.patterns[key] = createPathPattern(url).source
+            }
+        }
+    }
+
+    public render(): string {
+        const typescript = path.extname(this.output.output).toLowerCase() === '.ts'
+        return renderModule(stringify(this.contracts, { space: JSON_INDENT_LEN }),
+            stringify(this.patterns, { space: JSON_INDENT_LEN }), typescript)
+    }
+}
+
+function createContract(block: parser.Documentation.Block): RouteContract {
+    const responses: { [code: string]: tjs.Definition } = {}
+    const codes = block.responses.map(r => r.code).filter((c, i, all) => all.indexOf(c) === i)
+    for (const code of codes) {
+        const schemas = block.responses.filter(r => r.code === code).map(r => r.schema)
+        if (!schemas.length || schemas.some(s => !s)) continue
+        responses[code] = schemas.length === 1 ? schemas[0]! : { anyOf: schemas as tjs.Definition[] }
+    }
+    return {
+        params: createParamsSchema(block.params.filter(p => !p.query)),
+        query: createParamsSchema(block.params.filter(p => p.query)),
+        body: block.body && block.body.schema,
+        responses
+    }
+}
+
+/**
+ * Creates the schema of the url or query parameters of a route, which allows
+ * parameters which are not documented
+ */
+function createParamsSchema(params: parser.Documentation.Param[]): tjs.Definition {
+    const properties: { [name: string]: tjs.Definition } = {}
+    for (const param of params) {
+        const type = param.type && PARAM_TYPES.includes(param.type.toLowerCase()) ? param.type.toLowerCase() : 'string'
+        properties[param.name] = param.members ?
+            { type: typeof param.members[0], enum: param.members } :
+            { type }
+    }
+    const required = params.filter(p => !p.optional).map(p => p.name)
+    return { type: 'object', properties, required }
+}
+
+/**
+ * Writes the generated module, either as TypeScript or as a CommonJS module
+ *
+ * @param contracts the table of route contracts as JSON
+ * @param patterns the table of the patterns matching each route's urls as JSON
+ */
+function renderModule(contracts: string, patterns: string, typescript: boolean): string {
+    const any = typescript ? ': any' : ''
+    const anyArray = typescript ? ': any[]' : ''
+    const header = typescript ? `import Ajv from 'ajv'\n` : `'use strict'\nconst Ajv = require('ajv')\n`
+    const exported = typescript ? 'export ' : ''
+    const footer = typescript ? '' : '\nmodule.exports = { routes, validate }\n'
+    return `// Generated by hdoc from the API documentation. Do not edit.
+${header}
+// Parameters arrive as strings, so they are converted to their documented types
+const paramsAjv = new Ajv({ allErrors: true, coerceTypes: true, unknownFormats: 'ignore' })
+const bodyAjv = new Ajv({ allErrors: true, unknownFormats: 'ignore' })
+
+${exported}const routes${any} = ${contracts}
+
+const patterns${any} = ${patterns}
+
+const compiled = Object.keys(routes).map(key => {
+    const [method, path] = key.split(' ')
+    const route = routes[key]
+    const responses${any} = {}
+    for (const code of Object.keys(route.responses)) responses[code] = bodyAjv.compile(route.responses[code])
+    return {
+        method,
+        path,
+        pattern: new RegExp(patterns[key]),
+        names: (path.match(/:\\w+/g) || []).map(name => name.substring(1)),
+        params: paramsAjv.compile(route.params),
+        query: paramsAjv.compile(route.query),
+        body: route.body ? bodyAjv.compile(route.body) : null,
+        responses
+    }
+})
+
+/**
+ * Creates middleware which responds with 400 to requests whose url
+ * parameters, query parameters or body do not match the documentation:
+ *
+ *     { "message": "Invalid request", "errors": [{ "in": "query", "message": "..." }] }
+ *
+ * Requests to routes which are not documented are passed through.
+ *
+ * @param options.checkResponses whether to check that responses match their
+ * documented schemas, which is done in development (NODE_ENV=development) by default
+ * @param options.onResponseMismatch called with a description of each response
+ * which does not match, which defaults to console.warn
+ */
+${exported}function validate(options${any} = {}) {
+    const checkResponses = options.checkResponses !== undefined ?
+        options.checkResponses :
+        process.env.NODE_ENV === 'development'
+    const onResponseMismatch = options.onResponseMismatch || ((message${any}) => console.warn(message))
+
+    return async (ctx${any}, next${any}) => {
+        const method = ctx.method === 'HEAD' ? 'GET' : ctx.method
+        let params${any} = null
+        const route = compiled.find(r => {
+            if (r.method !== method) return false
+            const match = r.pattern.exec(ctx.path)
+            if (!match) return false
+            params = {}
+            r.names.forEach((name, i) => params[name] = decodeURIComponent(match[i + 1]))
+            return true
+        })
+        if (!route) return next()
+
+        const errors${anyArray} = []
+        const check = (location${any}, validate${any}, data${any}) => {
+            if (validate(data)) return
+            for (const error of validate.errors) {
+                errors.push({ in: location, message: (error.dataPath ? error.dataPath.substring(1) + ' ' : '') + error.message })
+            }
+        }
+        check('params', route.params, params)
+        check('query', route.query, { ...ctx.query })
+        if (route.body) check('body', route.body, ctx.request.body)
+        if (errors.length) {
+            ctx.status = 400
+            ctx.body = { message: 'Invalid request', errors }
+            return
+        }
+
+        await next()
+
+        const validateResponse = route.responses[ctx.status]
+        if (checkResponses && validateResponse && !validateResponse(ctx.body)) {
+            onResponseMismatch(\`Response \${ctx.status} of \${route.method} \${route.path} does not match its documented schema: \` +
+                bodyAjv.errorsText(validateResponse.errors, { dataVar: 'body' }))
+        }
+    }
+}
+${footer}`
+}
@@ -102,6 +102,8 @@ router.get('/greet/:name', async ctx => {
     ctx.body = `Hello ${ctx.params.name}!`
 })
 
+type NameOrder = 'western' | 'eastern'
+
 interface ParsedName {
     firstname: string
     lastname: string
@@ -114,17 +116,22 @@ interface ParsedName {
  * last name) into JSON format
  *
  * @query {string} name The name of the person
+ * @query {NameOrder} [order=western] Which part of the name comes first
  *
  * @response {ParsedName} 200 name has only one space
  * @response {text/plain} 400 name is not specified
  *  Name query parameter not specified
  * @response {text/plain} 400 name does not have exactly one space
  *  Your name is too complicated for my simple algorithms
+ * @example 200 western {"firstname": "John", "lastname": "Smith"}
+ * @example 200 eastern {"firstname": "Taro", "lastname": "Yamada"}
  */
 router.get('/parse', async (ctx: TypedCtx<ParsedName>) => {
     if (!ctx.query.name) ctx.throw(400, 'Name query parameter not specified')
     const splitName = ctx.query.name.split(' ')
     if (splitName.length != 2) ctx.throw(400, 'Your name is too complicated for my simple algorithms')
+    const order: NameOrder = ctx.query.order || 'western'
+    if (order === 'eastern') splitName.reverse()
     ctx.body = {
         firstname: splitName[0],
         lastname: splitName[1]
@@ -182,17 +189,36 @@ interface ExampleBody {
  * Take in some data
  *
  * @body {ExampleBody} {application/json}
+ * @request Some data
+ * @operationId sendData
+ * @header {string} X-Request-Id An id to trace the request with
+ * @auth token
  *
  * @response 500
  *  No body
  * @response {text/text} 200
  *  The hello field of the data I sent
+ * @responseHeader {string} 200 X-Request-Id The id the request was traced with
  */
 router.post('/post', bodyParser(), async (ctx: BodiedCtx<ExampleBody>) => {
     if (!ctx.request.body) throw ctx.throw(500, 'No body')
     ctx.body = ctx.request.body.hello
 })
 
+/**
+ * Echo a name
+ *
+ * The type of the body is taken from the handler's context.
+ *
+ * @response {text/plain} 200
+ *  John Doe
+ * @response 400 no name was sent
+ */
+router.post('/echo', bodyParser(), async (ctx: BodiedCtx<ParsedName>) => {
+    if (!ctx.request.body) throw ctx.throw(400)
+    ctx.body = `${ctx.request.body.firstname} ${ctx.request.body.lastname}`
+})
+
 app.use(router.routes())
 app.use(router.allowedMethods())
 app.listen(8080)
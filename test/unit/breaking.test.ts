@@ -0,0 +1,57 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { DocumentationSnapshot, checkBreakingChanges, formatBreakingChange, readAllowList } from '../../src/index'
+import { snapshotFixture } from './helpers'
+
+describe('breaking changes', () => {
+    let v1: DocumentationSnapshot
+    let v2: DocumentationSnapshot
+    before(() => {
+        v1 = snapshotFixture('versions/v1')
+        v2 = snapshotFixture('versions/v2')
+    })
+
+    it('finds the changes which could break clients', () => {
+        const { breaking } = checkBreakingChanges(v1, v2, [])
+        assert.deepStrictEqual(breaking.map(formatBreakingChange), [
+            'GET /users/: Made query parameter `limit` required',
+            'GET /users/: Narrowed query parameter `role`, which no longer accepts `guest`',
+            'GET /users/: Removed field `[].email` of response 200',
+            'POST /users/: Made body property `email` required',
+            'POST /users/: Removed field `email` of response 201',
+            'GET /users/:userId: Removed field `email` of response 200',
+            'DELETE /users/:id: Removed the route'
+        ])
+    })
+
+    it('does not report added routes and fields', () => {
+        assert.deepStrictEqual(checkBreakingChanges(v2, v2, []).breaking, [])
+        const { breaking } = checkBreakingChanges(v1, v2, [])
+        assert.ok(!breaking.some(change => change.route.startsWith('PATCH') || change.message.includes('admin')))
+    })
+
+    it('allows the changes to a route or single changes in the allow-list', () => {
+        const report = checkBreakingChanges(v1, v2, [
+            'POST /users/',
+            'GET /users/:id: Removed field `email` of response 200',
+            'DELETE /users/:id: Removed the route',
+            'PUT /users/:id'
+        ])
+        assert.deepStrictEqual(report.breaking.map(change => change.route), ['GET /users/', 'GET /users/', 'GET /users/'])
+        assert.strictEqual(report.allowed.length, 4)
+        assert.deepStrictEqual(report.unused, ['PUT /users/:id'])
+    })
+
+    it('reads allow-lists, ignoring comments and blank lines', () => {
+        const file = path.join(os.tmpdir(), `allow-${process.pid}.txt`)
+        fs.writeFileSync(file, '# Intended for 2.0\nDELETE /users/:id\n\n  POST /users/: Made body property `email` required  \n')
+        try {
+            assert.deepStrictEqual(readAllowList(file), ['DELETE /users/:id', 'POST /users/: Made body property `email` required'])
+        } finally {
+            fs.unlinkSync(file)
+        }
+    })
+})
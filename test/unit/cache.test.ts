@@ -0,0 +1,46 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+
+import { DocumentationCache } from '../../src/cache'
+import { Documentation } from '../../src/index'
+import { createFixtureProgram, documentFixture, findRoute, fixturePath } from './helpers'
+
+describe('documentation cache', () => {
+    const USER_WITH_EMAIL = 'export interface User {\n    id: number\n    name: string\n    email: string\n}\n'
+
+    const findRouter = (routers: Documentation.Router[], title: string) => routers.find(r => r.title === title)!
+    const getUserSchema = (routers: Documentation.Router[]) => findRoute(routers, 'GET /users/:id').responses[0].schema
+
+    let cache: DocumentationCache
+    let first: Documentation.Router[]
+    beforeEach(() => {
+        cache = new DocumentationCache()
+        first = documentFixture('cache', {}, createFixtureProgram('cache'), cache)
+    })
+
+    it('reuses the documentation of files which have not changed', () => {
+        const second = documentFixture('cache', {}, createFixtureProgram('cache'), cache)
+        assert.strictEqual(findRouter(second, 'Users'), findRouter(first, 'Users'))
+        assert.strictEqual(findRouter(second, 'Posts'), findRouter(first, 'Posts'))
+    })
+
+    it('documents files which have changed again', () => {
+        const posts = fs.readFileSync(fixturePath('cache', 'posts.ts'), 'utf8').replace('Delete a post', 'Remove a post')
+        const second = documentFixture('cache', {}, createFixtureProgram('cache', { 'posts.ts': posts }), cache)
+        assert.strictEqual(findRouter(second, 'Users'), findRouter(first, 'Users'))
+        assert.strictEqual(findRoute(second, 'DELETE /posts/:id').title, 'Remove a post')
+    })
+
+    it('documents files using a type again when the file declaring it changes', () => {
+        assert.ok(!JSON.stringify(getUserSchema(first)).includes('email'))
+        const second = documentFixture('cache', {}, createFixtureProgram('cache', { 'types.ts': USER_WITH_EMAIL }), cache)
+        assert.ok(JSON.stringify(getUserSchema(second)).includes('email'))
+        assert.strictEqual(findRouter(second, 'Posts'), findRouter(first, 'Posts'))
+    })
+
+    it('documents every file again when the config changes', () => {
+        const second = documentFixture('cache', { defaults: { string: 'text' } }, createFixtureProgram('cache'), cache)
+        assert.notStrictEqual(findRouter(second, 'Users'), findRouter(first, 'Users'))
+        assert.notStrictEqual(findRouter(second, 'Posts'), findRouter(first, 'Posts'))
+    })
+})
@@ -0,0 +1,56 @@
+import * as assert from 'assert'
+
+import { Changelog, DocumentationSnapshot, compareDocumentation, renderChangelog } from '../../src/index'
+import { findRoute, snapshotFixture } from './helpers'
+
+describe('changelog', () => {
+    let v1: DocumentationSnapshot
+    let v2: DocumentationSnapshot
+    let changelog: Changelog
+    before(() => {
+        v1 = snapshotFixture('versions/v1', { version: '1.0' })
+        v2 = snapshotFixture('versions/v2', { version: '2.0' })
+        changelog = compareDocumentation(v1.routers, v2.routers)
+    })
+
+    const names = (routes: { name: string }[]) => routes.map(r => r.name)
+
+    it('lists the routes which have been added, removed and deprecated', () => {
+        assert.deepStrictEqual(names(changelog.added), ['PATCH /users/:userId'])
+        assert.deepStrictEqual(names(changelog.removed), ['DELETE /users/:id'])
+        assert.deepStrictEqual(names(changelog.deprecated), ['GET /users/:userId'])
+    })
+
+    it('lists the changes to the parameters of each route', () => {
+        const list = changelog.changed.find(c => c.route.name === 'GET /users/')!
+        assert.deepStrictEqual(list.changes, [
+            'Made query parameter `limit` required',
+            'Removed `guest` from query parameter `role`'
+        ])
+    })
+
+    it('matches routes whose url parameters were renamed', () => {
+        const get = changelog.changed.find(c => c.route.name === 'GET /users/:userId')!
+        assert.strictEqual(get.changes[0], 'Renamed from `GET /users/:id`')
+    })
+
+    it('renders the changelog between the versions', () => {
+        const text = renderChangelog(v1, v2)
+        assert.ok(text.startsWith('# Changelog (1.0 to 2.0)\n'))
+        assert.ok(text.includes('\n## Added\n\n- `PATCH /users/:userId` Update a user (since 2.0)\n'))
+        assert.ok(text.includes('\n## Deprecated\n\n- `GET /users/:userId` Get a user: Use GET /users with a filter instead\n'))
+    })
+
+    it('says when the routes have not changed', () => {
+        assert.ok(renderChangelog(v1, v1).endsWith('\nThe routes have not changed.\n'))
+    })
+
+    it('marks properties with a @deprecated tag as deprecated in schemas', () => {
+        const schema = findRoute(v2.routers, 'GET /users/:userId').responses[0].schema!
+        assert.deepStrictEqual(schema.properties!.admin, {
+            type: 'boolean',
+            deprecated: true,
+            description: 'Deprecated: Use role instead'
+        })
+    })
+})
@@ -0,0 +1,80 @@
+import * as assert from 'assert'
+
+import { Documentation, RouteFilter, filterDocumentation, generateDocs, matchesGlob, validateConfig } from '../../src/index'
+import { documentFixture, findRoute, fixturePath, listRoutes } from './helpers'
+
+describe('filters', () => {
+    describe('matchesGlob', () => {
+        it('matches any part of a segment with *', () => {
+            assert.ok(matchesGlob('/accounts/*', '/accounts/:id'))
+            assert.ok(!matchesGlob('/accounts/*', '/accounts/:id/notes'))
+            assert.ok(matchesGlob('/v*/accounts', '/v2/accounts'))
+        })
+
+        it('matches any number of segments with **', () => {
+            assert.ok(matchesGlob('/debug/**', '/debug'))
+            assert.ok(matchesGlob('/debug/**', '/debug/memory/heap'))
+            assert.ok(!matchesGlob('/debug/**', '/debugger'))
+        })
+
+        it('matches the other characters of the glob literally', () => {
+            assert.ok(!matchesGlob('/v1.0/*', '/v1x0/accounts'))
+        })
+    })
+
+    describe('filterDocumentation', () => {
+        let routers: Documentation.Router[]
+        before(() => routers = documentFixture('audiences'))
+
+        const createFilter = (options: object): RouteFilter => validateConfig({ output: 'api.apib', ...options }).outputs[0].filter
+        const notes = (value: any) => JSON.stringify(value).includes('notes')
+
+        it('leaves out internal routes, parameters and schema properties', () => {
+            const filtered = filterDocumentation(routers, createFilter({ internal: false }))
+            assert.deepStrictEqual(listRoutes(filtered), ['GET /accounts/', 'GET /accounts/:id', 'GET /debug/memory'])
+            const list = findRoute(filtered, 'GET /accounts/')
+            assert.deepStrictEqual(list.params.map(p => p.name), ['limit'])
+            assert.ok(!notes(list.responses[0].schema))
+            assert.ok(!notes(list.responses[0].examples))
+        })
+
+        it('does not change the documentation it is given', () => {
+            filterDocumentation(routers, createFilter({ internal: false }))
+            const list = findRoute(routers, 'GET /accounts/')
+            assert.deepStrictEqual(list.params.map(p => p.name), ['limit', 'trace'])
+            assert.ok(notes(list.responses[0].schema))
+        })
+
+        it('selects routes by their paths and tags', () => {
+            assert.deepStrictEqual(listRoutes(filterDocumentation(routers, createFilter({ include: ['/accounts/*'] }))),
+                ['GET /accounts/', 'GET /accounts/:id', 'POST /accounts/merge'])
+            assert.deepStrictEqual(listRoutes(filterDocumentation(routers, createFilter({ exclude: ['/accounts/**', '/debug/*'] }))),
+                ['DELETE /admin/caches'])
+            assert.deepStrictEqual(listRoutes(filterDocumentation(routers, createFilter({ tags: ['accounts'], excludeTags: ['beta'] }))),
+                ['GET /accounts/', 'POST /accounts/merge'])
+        })
+    })
+
+    describe('audiences', () => {
+        it('writes the outputs of each audience with its own filters', async () => {
+            const { outputs } = await generateDocs({
+                tsconfig: fixturePath('audiences', 'tsconfig.json'),
+                config: {
+                    exclude: ['/debug/**'],
+                    audiences: {
+                        partners: { internal: false, excludeTags: ['beta'], output: 'partners.apib' },
+                        team: { output: 'team.apib' }
+                    }
+                },
+                write: false
+            })
+            const text = (output: string) => outputs.find(o => o.output.output.endsWith(output))!.text!
+            const titles = (output: string) => ['List accounts', 'Get an account', 'Merge two accounts', 'Clear the caches', 'Get the memory usage']
+                .filter(title => text(output).includes(title))
+            assert.deepStrictEqual(titles('partners.apib'), ['List accounts'])
+            assert.deepStrictEqual(titles('team.apib'), ['List accounts', 'Get an account', 'Merge two accounts', 'Clear the caches'])
+            assert.ok(!text('partners.apib').includes('notes'))
+            assert.ok(text('team.apib').includes('notes'))
+        })
+    })
+})
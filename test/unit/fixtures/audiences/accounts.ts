@@ -0,0 +1,46 @@
+import Router from 'koa-router'
+
+interface Account {
+    id: number
+    name: string
+    /**
+     * Notes by the support team
+     *
+     * @internal
+     */
+    notes: string
+}
+
+/**
+ * Accounts
+ *
+ * @tag accounts
+ */
+const accounts = new Router({ prefix: '/accounts' })
+
+/**
+ * List accounts
+ *
+ * @query {number} [limit] the number of accounts to list
+ * @query {boolean} [trace] whether to log the time taken
+ * @internal trace
+ * @response {Account[]} 200 The accounts
+ */
+accounts.get('/', ctx => {})
+
+/**
+ * Get an account
+ *
+ * @param {number} id the id of the account
+ * @response {Account} 200 The account
+ * @tag beta
+ */
+accounts.get('/:id', ctx => {})
+
+/**
+ * Merge two accounts
+ *
+ * @internal Only used by the support team
+ * @response 204 The accounts were merged
+ */
+accounts.post('/merge', ctx => {})
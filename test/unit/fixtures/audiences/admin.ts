@@ -0,0 +1,15 @@
+import Router from 'koa-router'
+
+/**
+ * Admin
+ *
+ * @internal
+ */
+const admin = new Router({ prefix: '/admin' })
+
+/**
+ * Clear the caches
+ *
+ * @response 204 The caches were cleared
+ */
+admin.delete('/caches', ctx => {})
@@ -0,0 +1,13 @@
+import Router from 'koa-router'
+
+/**
+ * Debug
+ */
+const debug = new Router({ prefix: '/debug' })
+
+/**
+ * Get the memory usage
+ *
+ * @response 200 The memory usage
+ */
+debug.get('/memory', ctx => {})
@@ -0,0 +1,16 @@
+import Router from 'koa-router'
+
+/**
+ * Posts
+ */
+const posts = new Router({ prefix: '/posts' })
+
+/**
+ * Delete a post
+ *
+ * @param {number} id the id of the post
+ * @response 204 The post was deleted
+ */
+posts.delete('/:id', ctx => {})
+
+export default posts
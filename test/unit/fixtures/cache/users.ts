@@ -0,0 +1,16 @@
+import Router from 'koa-router'
+
+/**
+ * Users
+ */
+const users = new Router({ prefix: '/users' })
+
+/**
+ * Get a user
+ *
+ * @param {number} id the id of the user
+ * @response {User} 200 The user
+ */
+users.get('/:id', ctx => {})
+
+export default users
@@ -0,0 +1,23 @@
+// The parts of koa-router which the fixtures use
+declare module 'koa-router' {
+    type Middleware = (ctx: any, next: () => Promise<any>) => any
+    type Path = string | string[]
+
+    class Router {
+        constructor(options?: { prefix?: string })
+        get(path: Path, ...middleware: Middleware[]): Router
+        get(name: string, path: Path, ...middleware: Middleware[]): Router
+        post(path: Path, ...middleware: Middleware[]): Router
+        put(path: Path, ...middleware: Middleware[]): Router
+        patch(path: Path, ...middleware: Middleware[]): Router
+        delete(path: Path, ...middleware: Middleware[]): Router
+        del(path: Path, ...middleware: Middleware[]): Router
+        all(path: Path, ...middleware: Middleware[]): Router
+        prefix(prefix: string): Router
+        use(path: string, ...middleware: Middleware[]): Router
+        use(...middleware: Middleware[]): Router
+        routes(): Middleware
+    }
+
+    export default Router
+}
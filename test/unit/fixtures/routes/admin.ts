@@ -0,0 +1,21 @@
+import Router from 'koa-router'
+
+const CACHE = 'cache'
+
+/**
+ * Admin
+ */
+const admin = new Router()
+admin.prefix('/admin')
+
+/**
+ * Clear the caches
+ */
+admin.del(`/${CACHE}s`, ctx => {})
+
+/**
+ * Rebuild the search index
+ */
+admin.all(['/reindex', '/search/' + 'reindex'], ctx => {})
+
+export default admin
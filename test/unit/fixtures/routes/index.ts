@@ -0,0 +1,19 @@
+import Router from 'koa-router'
+
+import users from './users'
+
+const API_PREFIX = '/api'
+
+/**
+ * API
+ */
+const api = new Router({ prefix: API_PREFIX })
+
+/**
+ * Get the status
+ */
+api.get('/status', ctx => {})
+
+api.use('/v1/users', users.routes())
+
+export default api
@@ -0,0 +1,32 @@
+import Router from 'koa-router'
+
+const ITEM = '/:id'
+
+/**
+ * Users
+ */
+const users = new Router()
+
+/**
+ * List users
+ */
+users.get('/', ctx => {})
+
+users
+    /**
+     * Get a user
+     *
+     * @param id the id of the user
+     */
+    .get('user', ITEM, ctx => {})
+    /**
+     * Update a user
+     *
+     * @param id the id of the user
+     */
+    .put(ITEM, ctx => {})
+
+// Not documented
+users.post('/', ctx => {})
+
+export default users
@@ -0,0 +1,34 @@
+import Router from 'koa-router'
+
+interface NewUser {
+    name: string
+    age?: number
+}
+
+interface User {
+    id: number
+    name: string
+    age?: number
+}
+
+/**
+ * Users
+ */
+const users = new Router({ prefix: '/v1.0/users' })
+
+/**
+ * Create a user
+ *
+ * @body {NewUser}
+ * @response {User} 201 The user was created
+ */
+users.post('/', ctx => {})
+
+/**
+ * Get a user
+ *
+ * @param {number} id the id of the user
+ * @query {boolean} [full] whether to include the user's details
+ * @response {User} 200 The user
+ */
+users.get('/:id', ctx => {})
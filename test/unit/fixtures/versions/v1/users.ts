@@ -0,0 +1,53 @@
+import Router from 'koa-router'
+
+type Role = 'admin' | 'member' | 'guest'
+
+interface User {
+    id: number
+    name: string
+    email: string
+    role: Role
+}
+
+interface NewUser {
+    name: string
+    email?: string
+}
+
+/**
+ * Users
+ */
+const users = new Router({ prefix: '/users' })
+
+/**
+ * List users
+ *
+ * @query {number} [limit] the number of users to list
+ * @query {Role} [role] only list users with this role
+ * @response {User[]} 200 The users
+ */
+users.get('/', ctx => {})
+
+/**
+ * Create a user
+ *
+ * @body {NewUser}
+ * @response {User} 201 The user was created
+ */
+users.post('/', ctx => {})
+
+/**
+ * Get a user
+ *
+ * @param {number} id the id of the user
+ * @response {User} 200 The user
+ */
+users.get('/:id', ctx => {})
+
+/**
+ * Delete a user
+ *
+ * @param {number} id the id of the user
+ * @response 204 The user was deleted
+ */
+users.delete('/:id', ctx => {})
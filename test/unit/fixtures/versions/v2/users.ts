@@ -0,0 +1,59 @@
+import Router from 'koa-router'
+
+type Role = 'admin' | 'member'
+
+interface User {
+    id: number
+    name: string
+    role: Role
+    /**
+     * @deprecated Use role instead
+     */
+    admin?: boolean
+}
+
+interface NewUser {
+    name: string
+    email: string
+}
+
+/**
+ * Users
+ */
+const users = new Router({ prefix: '/users' })
+
+/**
+ * List users
+ *
+ * @query {number} limit the number of users to list
+ * @query {Role} [role] only list users with this role
+ * @response {User[]} 200 The users
+ */
+users.get('/', ctx => {})
+
+/**
+ * Create a user
+ *
+ * @body {NewUser}
+ * @response {User} 201 The user was created
+ */
+users.post('/', ctx => {})
+
+/**
+ * Get a user
+ *
+ * @param {number} userId the id of the user
+ * @response {User} 200 The user
+ * @deprecated Use GET /users with a filter instead
+ */
+users.get('/:userId', ctx => {})
+
+/**
+ * Update a user
+ *
+ * @param {number} userId the id of the user
+ * @body {NewUser}
+ * @response {User} 200 The user was updated
+ * @since 2.0
+ */
+users.patch('/:userId', ctx => {})
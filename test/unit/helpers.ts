@@ -0,0 +1,76 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import ts from 'typescript'
+
+import { DocumentationCache } from '../../src/cache'
+import { Documentation, DocumentationSnapshot, createDocumentation, createSnapshot, indexRoutes, validateConfig } from '../../src/index'
+
+const FIXTURES = path.join(__dirname, 'fixtures')
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2017,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    strict: true,
+    esModuleInterop: true,
+    noEmit: true
+}
+
+/**
+ * Returns the path of a file in the fixtures directory
+ */
+export function fixturePath(...parts: string[]): string {
+    return path.join(FIXTURES, ...parts)
+}
+
+/**
+ * Creates a program from the TypeScript files of a fixture project, along
+ * with the declarations of koa-router which they use
+ *
+ * @param changes text to read some of the files with instead of their
+ * contents, by their names in the fixture
+ */
+export function createFixtureProgram(name: string, changes: { [file: string]: string } = {}): ts.Program {
+    const dir = fixturePath(name)
+    const files = fs.readdirSync(dir).filter(f => f.endsWith('.ts')).map(f => path.join(dir, f))
+    const host = ts.createCompilerHost(COMPILER_OPTIONS)
+    const getSourceFile = host.getSourceFile
+    host.getSourceFile = (fileName, languageVersion, onError) => {
+        const changed = Object.keys(changes).find(file => path.resolve(fileName) === path.join(dir, file))
+        return changed ?
+            ts.createSourceFile(fileName, changes[changed], languageVersion) :
+            getSourceFile.call(host, fileName, languageVersion, onError)
+    }
+    return ts.createProgram(files.concat(fixturePath('koa-router.d.ts')), COMPILER_OPTIONS, host)
+}
+
+/**
+ * Documents a fixture project
+ */
+export function documentFixture(name: string, config: object = {}, program = createFixtureProgram(name),
+                                cache?: DocumentationCache): Documentation.Router[] {
+    return createDocumentation(program.getSourceFiles(), program, validateConfig({ output: 'api.apib', ...config }), cache)
+}
+
+/**
+ * Documents a fixture project as it would be written by a json output
+ */
+export function snapshotFixture(name: string, config: object = {}): DocumentationSnapshot {
+    return createSnapshot(validateConfig({ output: 'api.json', ...config }), documentFixture(name, config))
+}
+
+/**
+ * Lists the routes of the documentation by method and full path (e.g. GET /users/:id)
+ */
+export function listRoutes(routers: Documentation.Router[]): string[] {
+    return Array.from(indexRoutes(routers).values()).map(route => route.name).sort()
+}
+
+/**
+ * Finds the documentation of a route by its method and full path
+ */
+export function findRoute(routers: Documentation.Router[], name: string): Documentation.Block {
+    const route = Array.from(indexRoutes(routers).values()).find(r => r.name === name)
+    if (!route) throw new Error(`Route ${name} is not documented`)
+    return route.block
+}
@@ -0,0 +1,26 @@
+import * as assert from 'assert'
+
+import { joinPaths, normalizePath } from '../../src/routers'
+
+describe('routers', () => {
+    describe('joinPaths', () => {
+        it('keeps a single slash between the paths', () => {
+            assert.strictEqual(joinPaths('/api', 'users'), '/api/users')
+            assert.strictEqual(joinPaths('/api/', '/users'), '/api/users')
+            assert.strictEqual(joinPaths('/api', '/users/'), '/api/users/')
+        })
+
+        it('returns either path if the other is empty', () => {
+            assert.strictEqual(joinPaths('', '/users'), '/users')
+            assert.strictEqual(joinPaths('/api', ''), '/api')
+        })
+    })
+
+    describe('normalizePath', () => {
+        it('gives paths a leading slash and no trailing slash', () => {
+            assert.strictEqual(normalizePath('users/'), '/users')
+            assert.strictEqual(normalizePath('//users'), '/users')
+            assert.strictEqual(normalizePath(''), '/')
+        })
+    })
+})
@@ -0,0 +1,54 @@
+import * as assert from 'assert'
+
+import { GenerateResult, generateDocs } from '../../src/index'
+import { findRoute, fixturePath, listRoutes } from './helpers'
+
+describe('route resolution', () => {
+    let generated: GenerateResult
+    before(async () => {
+        generated = await generateDocs({
+            tsconfig: fixturePath('routes', 'tsconfig.json'),
+            config: { output: 'api.apib', rules: { 'undocumented-route': 'off' } },
+            write: false
+        })
+    })
+
+    it('documents routes under the prefixes and mounts of their routers', () => {
+        const { routers } = generated
+        assert.deepStrictEqual(listRoutes(routers), [
+            'DELETE /admin/caches',
+            'DELETE /admin/reindex',
+            'DELETE /admin/search/reindex',
+            'GET /admin/reindex',
+            'GET /admin/search/reindex',
+            'GET /api/status',
+            'GET /api/v1/users/',
+            'GET /api/v1/users/:id',
+            'PATCH /admin/reindex',
+            'PATCH /admin/search/reindex',
+            'POST /admin/reindex',
+            'POST /admin/search/reindex',
+            'PUT /admin/reindex',
+            'PUT /admin/search/reindex',
+            'PUT /api/v1/users/:id'
+        ])
+    })
+
+    it('reads the comments of named and chained routes', () => {
+        const { routers } = generated
+        const get = findRoute(routers, 'GET /api/v1/users/:id')
+        assert.strictEqual(get.name, 'user')
+        assert.strictEqual(get.title, 'Get a user')
+        assert.deepStrictEqual(get.params.map(p => p.name), ['id'])
+        const put = findRoute(routers, 'PUT /api/v1/users/:id')
+        assert.strictEqual(put.name, null)
+        assert.strictEqual(put.title, 'Update a user')
+    })
+
+    it('renders the outputs without writing them', () => {
+        const { outputs } = generated
+        assert.strictEqual(outputs.length, 1)
+        assert.ok(outputs[0].text!.includes('## Api V1 Users by Id [/api/v1/users/{id}]'))
+        assert.ok(outputs[0].text!.includes('### Get a user [GET]'))
+    })
+})
@@ -0,0 +1,88 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+
+import { emitDocumentation, validateConfig } from '../../src/index'
+import { createPathPattern } from '../../src/routers'
+import { documentFixture, fixturePath } from './helpers'
+
+describe('validator', () => {
+    describe('createPathPattern', () => {
+        it('captures each parameter of the path', () => {
+            const match = createPathPattern('/users/:id/posts/:post').exec('/users/1/posts/2')
+            assert.deepStrictEqual(match && match.slice(1), ['1', '2'])
+        })
+
+        it('allows a trailing slash', () => {
+            assert.ok(createPathPattern('/users').test('/users/'))
+            assert.ok(createPathPattern('/users/').test('/users'))
+        })
+
+        it('matches the other characters of the path literally', () => {
+            assert.ok(createPathPattern('/v1.0/users').test('/v1.0/users'))
+            assert.ok(!createPathPattern('/v1.0/users').test('/v1x0/users'))
+        })
+    })
+
+    describe('generated middleware', () => {
+        // The module is written beside the fixture, where it can require ajv
+        const file = fixturePath('validator', 'validate.js')
+        let validate: (options?: object) => (ctx: any, next: () => Promise<any>) => Promise<any>
+
+        before(async () => {
+            const config = validateConfig({ outputs: [{ output: 'validate.js', format: 'validator' }] })
+            const [{ text }] = await emitDocumentation(config, documentFixture('validator'), false)
+            fs.writeFileSync(file, text)
+            validate = require(file).validate
+        })
+
+        after(() => fs.unlinkSync(file))
+
+        function request(method: string, url: string, body?: any, respond?: (ctx: any) => void) {
+            const [urlPath, search] = url.split('?')
+            const query: { [name: string]: string } = {}
+            new URLSearchParams(search).forEach((value, name) => query[name] = value)
+            const ctx: any = { method, path: urlPath, query, request: { body }, status: 404, body: undefined }
+            let called = false
+            const mismatches: string[] = []
+            const middleware = validate({ checkResponses: true, onResponseMismatch: (m: string) => mismatches.push(m) })
+            return middleware(ctx, async () => {
+                called = true
+                if (respond) respond(ctx)
+            }).then(() => ({ ctx, called, mismatches }))
+        }
+
+        it('passes valid requests on', async () => {
+            const { called } = await request('POST', '/v1.0/users', { name: 'Ann', age: 30 })
+            assert.ok(called)
+        })
+
+        it('answers requests with an invalid body with 400', async () => {
+            const { ctx, called } = await request('POST', '/v1.0/users', { age: 'thirty' })
+            assert.ok(!called)
+            assert.strictEqual(ctx.status, 400)
+            assert.strictEqual(ctx.body.message, 'Invalid request')
+            assert.deepStrictEqual(ctx.body.errors.map((e: any) => e.in), ['body', 'body'])
+        })
+
+        it('converts parameters to their documented types', async () => {
+            assert.ok((await request('GET', '/v1.0/users/12?full=true')).called)
+            const { ctx } = await request('GET', '/v1.0/users/twelve?full=maybe')
+            assert.strictEqual(ctx.status, 400)
+            assert.deepStrictEqual(ctx.body.errors.map((e: any) => e.in), ['params', 'query'])
+        })
+
+        it('passes requests to routes which are not documented on', async () => {
+            assert.ok((await request('DELETE', '/v1.0/users/12')).called)
+            assert.ok((await request('POST', '/v1x0/users', {})).called)
+        })
+
+        it('reports responses which do not match their schema', async () => {
+            const { mismatches } = await request('GET', '/v1.0/users/12', undefined, ctx => {
+                ctx.status = 200
+                ctx.body = { id: 12 }
+            })
+            assert.strictEqual(mismatches.length, 1)
+            assert.ok(mismatches[0].startsWith('Response 200 of GET /v1.0/users/:id does not match'))
+        })
+    })
+})